@@ -0,0 +1,222 @@
+import { DrumPad } from './drumPads';
+import { BEAT_UNITS, BeatUnit, MAX_BEATS_PER_BAR, MAX_BPM, MIN_BPM, playTempoMap, stop, TempoMapStatus, ticksPerBeat } from './metronome';
+import { exportHitsAsWav, RenderHit } from './render';
+import { normalizePattern, patternQuarters, SequencerPattern, setSequencerTrack, STEPS_PER_QUARTER } from './sequencer';
+import { clampInt, downloadJson, fileSafeName, loadList, newId, readJsonFile, saveJson } from '../lib/storage';
+
+// Song mode: sequencer patterns chained into an arrangement (intro ×1, verse ×4 …).
+// Each section sets tempo and time signature on its first bar line and lasts its
+// repeats of the pattern, rounded up to whole bars. Stored in localStorage, shared as JSON.
+export type ArrangementSection = {
+  id: string;
+  name: string;
+  patternId: string | null;
+  repeats: number;
+  bpm: number;
+  beats: number;
+  beatUnit: BeatUnit;
+  muted: boolean; // the click goes on, the drums are silent: your turn to play it
+};
+
+export type Arrangement = {
+  id: string;
+  name: string;
+  countInBars: number;
+  sections: ArrangementSection[];
+};
+
+export type ArrangementPlayback = {
+  arrangementId: string;
+  from: number; // first section played
+  to: number; // last section played
+  loop: boolean;
+  playing: boolean;
+  status: TempoMapStatus | null;
+};
+
+export const MAX_REPEATS = 64;
+export const MAX_COUNT_IN_BARS = 4;
+
+const STORAGE_KEY = 'arrangements_v1';
+const FILE_FORMAT = 'web-drumkit-arrangement';
+const FILE_VERSION = 1;
+
+let playback: ArrangementPlayback | null = null;
+// Bumped per play, so callbacks of a replaced run are ignored
+let run = 0;
+const listeners = new Set<() => void>();
+
+function normalizeSection(raw: Partial<ArrangementSection> | null | undefined): ArrangementSection {
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('part'),
+    name: typeof raw?.name === 'string' ? raw.name : 'Section',
+    patternId: typeof raw?.patternId === 'string' && raw.patternId ? raw.patternId : null,
+    repeats: clampInt(raw?.repeats, 1, MAX_REPEATS, 1),
+    bpm: clampInt(raw?.bpm, MIN_BPM, MAX_BPM, 100),
+    beats: clampInt(raw?.beats, 1, MAX_BEATS_PER_BAR, 4),
+    beatUnit: BEAT_UNITS.includes(raw?.beatUnit as BeatUnit) ? (raw!.beatUnit as BeatUnit) : 4,
+    muted: !!raw?.muted,
+  };
+}
+
+export function normalizeArrangement(raw: Partial<Arrangement> | null | undefined): Arrangement {
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('arrangement'),
+    name: typeof raw?.name === 'string' && raw.name.trim() ? raw.name : 'Arrangement',
+    countInBars: clampInt(raw?.countInBars, 0, MAX_COUNT_IN_BARS, 1),
+    sections: Array.isArray(raw?.sections) ? raw!.sections.map(normalizeSection) : [],
+  };
+}
+
+export function createArrangementSection(patch: Partial<ArrangementSection> = {}): ArrangementSection {
+  return normalizeSection({ name: 'Verse', repeats: 4, bpm: 100, beats: 4, beatUnit: 4, ...patch, id: newId('part') });
+}
+
+export function createArrangement(name = 'New arrangement'): Arrangement {
+  return { id: newId('arrangement'), name, countInBars: 1, sections: [] };
+}
+
+export function listArrangements(): Arrangement[] {
+  return loadList(STORAGE_KEY, normalizeArrangement);
+}
+
+export function saveArrangements(arrangements: Arrangement[]) {
+  saveJson(STORAGE_KEY, arrangements);
+}
+
+function findPattern(patterns: SequencerPattern[], id: string | null) {
+  return patterns.find(p => p.id === id) ?? null;
+}
+
+// Without a pattern a section is one silent bar per repeat
+export function sectionBars(section: ArrangementSection, pattern: SequencerPattern | null) {
+  const barQuarters = (section.beats * 4) / section.beatUnit;
+  const quarters = pattern ? section.repeats * patternQuarters(pattern) : section.repeats * barQuarters;
+  return Math.max(1, Math.ceil(quarters / barQuarters - 1e-9));
+}
+
+function barTicks(section: ArrangementSection) {
+  return section.beats * ticksPerBeat(section.beatUnit);
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+// Play sections from..to (all by default) after the count-in; with loop they
+// repeat without a count-in until stopped
+export async function playArrangement(
+  arrangement: Arrangement,
+  patterns: SequencerPattern[],
+  options: { from?: number; to?: number; loop?: boolean } = {}
+) {
+  const from = Math.max(0, Math.min(arrangement.sections.length - 1, options.from ?? 0));
+  const to = Math.max(from, Math.min(arrangement.sections.length - 1, options.to ?? arrangement.sections.length - 1));
+  const sections = arrangement.sections.slice(from, to + 1);
+  if (!sections.length) return;
+  const myRun = ++run;
+  const loop = !!options.loop;
+  const parts = sections.map(s => ({ section: s, pattern: findPattern(patterns, s.patternId) }));
+  setSequencerTrack({
+    startTick: arrangement.countInBars * barTicks(sections[0]),
+    sections: parts.map(({ section, pattern }) => ({ ticks: sectionBars(section, pattern) * barTicks(section), pattern, muted: section.muted })),
+    loop,
+  });
+  playback = { arrangementId: arrangement.id, from, to, loop, playing: true, status: null };
+  notify();
+  await playTempoMap(
+    parts.map(({ section, pattern }) => ({ label: section.name, bars: sectionBars(section, pattern), bpm: section.bpm, beats: section.beats, beatUnit: section.beatUnit })),
+    {
+      countInBars: arrangement.countInBars,
+      loop,
+      onBar: status => {
+        if (myRun !== run || !playback) return;
+        playback = { ...playback, status };
+        notify();
+      },
+      onEnd: () => {
+        if (myRun !== run) return;
+        setSequencerTrack(null);
+        if (playback) playback = { ...playback, playing: false, status: null };
+        notify();
+      },
+    }
+  );
+}
+
+export function stopArrangement() {
+  run++;
+  stop();
+  setSequencerTrack(null);
+  if (playback) {
+    playback = { ...playback, playing: false, status: null };
+    notify();
+  }
+}
+
+export function getArrangementPlayback() {
+  return playback ? { ...playback } : null;
+}
+
+// Called when playback starts, moves on a bar or ends
+export function subscribeArrangement(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// Every hit of the arrangement once through (no count-in, muted sections silent), timed by each section's tempo
+export function arrangementHits(arrangement: Arrangement, patterns: SequencerPattern[]): RenderHit[] {
+  const hits: RenderHit[] = [];
+  let start = 0;
+  arrangement.sections.forEach(section => {
+    const pattern = findPattern(patterns, section.patternId);
+    const beats = sectionBars(section, pattern) * section.beats;
+    if (pattern && !section.muted) {
+      // The BPM counts beats of the section's unit; steps count quarters
+      const perBeat = (STEPS_PER_QUARTER[pattern.resolution] * 4) / section.beatUnit;
+      const stepSeconds = 60 / section.bpm / perBeat;
+      for (let k = 0; k < beats * perBeat; k++) {
+        const index = k % pattern.length;
+        (Object.keys(pattern.rows) as DrumPad[]).forEach(pad => {
+          const velocity = pattern.rows[pad]?.[index] ?? 0;
+          if (velocity > 0) hits.push({ time: start + k * stepSeconds, pad, velocity });
+        });
+      }
+    }
+    start += (beats * 60) / section.bpm;
+  });
+  return hits;
+}
+
+function fileName(arrangement: Arrangement) {
+  return fileSafeName(arrangement.name, 'arrangement');
+}
+
+export function exportArrangementWav(arrangement: Arrangement, patterns: SequencerPattern[]) {
+  return exportHitsAsWav(arrangementHits(arrangement, patterns), `${fileName(arrangement)}.wav`);
+}
+
+// The file carries the patterns it uses, so it plays the same elsewhere
+export function exportArrangement(arrangement: Arrangement, patterns: SequencerPattern[]) {
+  const used = patterns.filter(p => arrangement.sections.some(s => s.patternId === p.id));
+  downloadJson({ format: FILE_FORMAT, version: FILE_VERSION, arrangement, patterns: used }, `${fileName(arrangement)}.json`);
+}
+
+// Arrangement and patterns get new ids, so an import never replaces what is already here
+export async function importArrangement(file: Blob): Promise<{ arrangement: Arrangement; patterns: SequencerPattern[] }> {
+  const parsed = await readJsonFile(file);
+  const wrapped = parsed as { format?: unknown; arrangement?: unknown; patterns?: unknown } | null;
+  const raw = (wrapped?.format === FILE_FORMAT ? wrapped.arrangement : parsed) as Partial<Arrangement> | null;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.sections)) throw new Error('This file does not contain an arrangement.');
+  const ids = new Map<string, string>();
+  const patterns = (Array.isArray(wrapped?.patterns) ? (wrapped!.patterns as Partial<SequencerPattern>[]) : []).map(p => {
+    const pattern = normalizePattern({ ...p, id: undefined });
+    if (typeof p?.id === 'string') ids.set(p.id, pattern.id);
+    return pattern;
+  });
+  const arrangement = normalizeArrangement({ ...raw, id: newId('arrangement') });
+  arrangement.sections = arrangement.sections.map(s => ({ ...s, patternId: s.patternId ? ids.get(s.patternId) ?? null : null }));
+  return { arrangement, patterns };
+}
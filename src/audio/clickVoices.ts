@@ -0,0 +1,167 @@
+import * as Tone from 'tone';
+import { decodeSampleFile } from './userSamples';
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+
+// Sounds for the metronome's beat clicks. Accented and normal beats each get
+// their own voice, so a preset can differ between them and never cuts itself off.
+export type ClickPreset = 'membrane' | 'woodblock' | 'cowbell' | 'rimshot' | 'hihat' | 'beep' | 'count' | 'custom';
+export type ClickSlot = 'accent' | 'normal';
+
+export const CLICK_PRESETS: ClickPreset[] = ['membrane', 'woodblock', 'cowbell', 'rimshot', 'hihat', 'beep', 'count', 'custom'];
+
+export type ClickVoice = {
+  // beatIndex is the beat within the bar (0-based), for the spoken count
+  trigger: (time: number, velocity: number, beatIndex: number) => void;
+  dispose: () => void;
+};
+
+// A sample the user loaded for one slot, kept as the original file
+export type ClickSample = {
+  slot: ClickSlot;
+  name: string;
+  blob: Blob;
+};
+
+const STORE = 'click_samples';
+const COUNT_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen'];
+
+export function isSpeechSupported() {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Keep the nodes of a voice together so switching presets frees all of them
+function voice(nodes: { dispose: () => unknown }[], trigger: ClickVoice['trigger']): ClickVoice {
+  return { trigger, dispose: () => nodes.forEach(n => n.dispose()) };
+}
+
+function membrane(slot: ClickSlot, out: Tone.InputNode) {
+  const accent = slot === 'accent';
+  const synth = new Tone.MembraneSynth({
+    octaves: 2,
+    pitchDecay: accent ? 0.005 : 0.008,
+    envelope: { attack: 0.001, decay: accent ? 0.08 : 0.12, sustain: 0 },
+  }).connect(out);
+  return voice([synth], (time, velocity) => synth.triggerAttackRelease(accent ? 1200 : 800, '16n', time, velocity));
+}
+
+function woodblock(slot: ClickSlot, out: Tone.InputNode) {
+  const synth = new Tone.MembraneSynth({ octaves: 0.5, pitchDecay: 0.002, envelope: { attack: 0.0005, decay: 0.04, sustain: 0 } });
+  const filter = new Tone.Filter({ type: 'bandpass', frequency: 1800, Q: 2 });
+  synth.chain(filter, out);
+  return voice([synth, filter], (time, velocity) => synth.triggerAttackRelease(slot === 'accent' ? 2000 : 1500, '32n', time, velocity));
+}
+
+// Two detuned squares through a band-pass, as on the classic drum machines
+function cowbell(slot: ClickSlot, out: Tone.InputNode) {
+  const decay = slot === 'accent' ? 0.3 : 0.18;
+  const filter = new Tone.Filter({ type: 'bandpass', frequency: 800, Q: 1.5 }).connect(out);
+  const oscs = [540, 800].map(freq => {
+    const synth = new Tone.Synth({ oscillator: { type: 'square' }, envelope: { attack: 0.001, decay, sustain: 0, release: 0.01 } }).connect(filter);
+    return { synth, freq };
+  });
+  return voice([filter, ...oscs.map(o => o.synth)], (time, velocity) =>
+    oscs.forEach(o => o.synth.triggerAttackRelease(o.freq, '16n', time, velocity * 0.6))
+  );
+}
+
+// A noise crack over a short high tone
+function rimshot(slot: ClickSlot, out: Tone.InputNode) {
+  const filter = new Tone.Filter({ type: 'highpass', frequency: 1800 }).connect(out);
+  const noise = new Tone.NoiseSynth({ noise: { type: 'white' }, envelope: { attack: 0.001, decay: 0.03, sustain: 0 } }).connect(filter);
+  const tone = new Tone.Synth({ oscillator: { type: 'triangle' }, envelope: { attack: 0.001, decay: 0.02, sustain: 0, release: 0.01 } }).connect(out);
+  const pitch = slot === 'accent' ? 1700 : 1400;
+  return voice([filter, noise, tone], (time, velocity) => {
+    noise.triggerAttackRelease('32n', time, velocity);
+    tone.triggerAttackRelease(pitch, '32n', time, velocity * 0.7);
+  });
+}
+
+function hihat(slot: ClickSlot, out: Tone.InputNode) {
+  const synth = new Tone.MetalSynth({
+    harmonicity: 5.1,
+    modulationIndex: 32,
+    resonance: 5000,
+    octaves: 1.5,
+    envelope: { attack: 0.001, decay: slot === 'accent' ? 0.09 : 0.05, release: 0.01 },
+  }).connect(out);
+  synth.volume.value = -12;
+  return voice([synth], (time, velocity) => synth.triggerAttackRelease(300, '32n', time, velocity));
+}
+
+function beep(slot: ClickSlot, out: Tone.InputNode) {
+  const synth = new Tone.Synth({ oscillator: { type: 'sine' }, envelope: { attack: 0.001, decay: 0.07, sustain: 0, release: 0.01 } }).connect(out);
+  return voice([synth], (time, velocity) => synth.triggerAttackRelease(slot === 'accent' ? 1760 : 880, '32n', time, velocity));
+}
+
+// Spoken by the browser's speech engine when the beat is drawn. Speech cannot be
+// scheduled on the audio clock, so it is a little late and not on the click bus.
+function count(): ClickVoice {
+  return {
+    trigger: (time, _velocity, beatIndex) => {
+      if (!isSpeechSupported()) return;
+      const word = COUNT_WORDS[beatIndex] ?? String(beatIndex + 1);
+      Tone.Draw.schedule(() => {
+        window.speechSynthesis.cancel();
+        const utterance = new SpeechSynthesisUtterance(word);
+        utterance.rate = 1.6;
+        window.speechSynthesis.speak(utterance);
+      }, time);
+    },
+    dispose: () => {
+      if (isSpeechSupported()) window.speechSynthesis.cancel();
+    },
+  };
+}
+
+// One buffer source per hit, so a long sample keeps ringing under the next click
+function sampled(buffer: AudioBuffer, out: Tone.InputNode): ClickVoice {
+  const gain = new Tone.Gain(1).connect(out);
+  return voice([gain], (time, velocity) => {
+    const source = new Tone.ToneBufferSource(buffer).connect(gain);
+    source.onended = () => source.dispose();
+    source.start(time, 0, undefined, velocity);
+  });
+}
+
+// Without a loaded sample the custom preset falls back to the default click
+export function createClickVoice(preset: ClickPreset, slot: ClickSlot, out: Tone.InputNode, sample?: AudioBuffer | null): ClickVoice {
+  switch (preset) {
+    case 'woodblock':
+      return woodblock(slot, out);
+    case 'cowbell':
+      return cowbell(slot, out);
+    case 'rimshot':
+      return rimshot(slot, out);
+    case 'hihat':
+      return hihat(slot, out);
+    case 'beep':
+      return beep(slot, out);
+    case 'count':
+      return count();
+    case 'custom':
+      return sample ? sampled(sample, out) : membrane(slot, out);
+    default:
+      return membrane(slot, out);
+  }
+}
+
+export async function loadClickSamples(): Promise<Partial<Record<ClickSlot, ClickSample>>> {
+  const all = await idbGetAll<ClickSample>(STORE);
+  const out: Partial<Record<ClickSlot, ClickSample>> = {};
+  all.filter(s => s?.slot && s.blob).forEach(s => {
+    out[s.slot] = s;
+  });
+  return out;
+}
+
+export async function saveClickSample(slot: ClickSlot, file: File): Promise<{ sample: ClickSample; buffer: AudioBuffer }> {
+  // Decode first so a broken file is never stored
+  const buffer = await decodeSampleFile(file);
+  const sample: ClickSample = { slot, name: file.name, blob: file };
+  await idbPut(STORE, slot, sample);
+  return { sample, buffer };
+}
+
+export function deleteClickSample(slot: ClickSlot) {
+  return idbDelete(STORE, slot);
+}
@@ -0,0 +1,134 @@
+import { loadJson, saveJson } from '../lib/storage';
+
+// MIDI notes or CCs that drive app controls instead of pads, e.g. a spare pad
+// for tap tempo. MidiSampler owns the MIDI input and offers every message here first.
+export type ControlAction = 'tap' | 'nextSong';
+
+export type ControlBinding = { kind: 'note' | 'cc'; number: number };
+
+const STORAGE_KEY = 'control_bindings_v1';
+// Tap tempo kept its binding next to its own settings before other controls existed
+const LEGACY_TAP_KEY = 'tap_tempo_v1';
+const CC_PRESS_THRESHOLD = 64;
+
+let bindings: Partial<Record<ControlAction, ControlBinding>> = loadBindings();
+let learning: ControlAction | null = null;
+const handlers: Partial<Record<ControlAction, () => void>> = {};
+const listeners = new Set<() => void>();
+const ccDown = new Map<number, boolean>();
+
+function isBinding(b: unknown): b is ControlBinding {
+  const v = b as ControlBinding | null;
+  return !!v && (v.kind === 'note' || v.kind === 'cc') && Number.isInteger(v.number);
+}
+
+function loadBindings(): Partial<Record<ControlAction, ControlBinding>> {
+  const parsed = loadJson(STORAGE_KEY) as Record<string, unknown> | null;
+  if (parsed && typeof parsed === 'object') {
+    const out: Partial<Record<ControlAction, ControlBinding>> = {};
+    (['tap', 'nextSong'] as ControlAction[]).forEach(action => {
+      if (isBinding(parsed[action])) out[action] = parsed[action] as ControlBinding;
+    });
+    return out;
+  }
+  const legacy = loadJson(LEGACY_TAP_KEY) as { binding?: unknown } | null;
+  return isBinding(legacy?.binding) ? { tap: legacy!.binding as ControlBinding } : {};
+}
+
+function save() {
+  saveJson(STORAGE_KEY, bindings);
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+export function bindingLabel(binding: ControlBinding | null | undefined) {
+  if (!binding) return 'None';
+  return binding.kind === 'note' ? `Note ${binding.number}` : `CC ${binding.number}`;
+}
+
+export function getControlBinding(action: ControlAction) {
+  const b = bindings[action];
+  return b ? { ...b } : null;
+}
+
+export function getLearningControl() {
+  return learning;
+}
+
+// The next MIDI note or CC press is bound to `action`
+export function startControlLearn(action: ControlAction) {
+  learning = action;
+  notify();
+}
+
+export function cancelControlLearn() {
+  learning = null;
+  notify();
+}
+
+export function clearControlBinding(action: ControlAction) {
+  const next = { ...bindings };
+  delete next[action];
+  bindings = next;
+  if (learning === action) learning = null;
+  save();
+  notify();
+}
+
+function bind(binding: ControlBinding) {
+  const action = learning!;
+  // One message drives one control
+  const next = { ...bindings };
+  (Object.keys(next) as ControlAction[]).forEach(a => {
+    if (next[a]?.kind === binding.kind && next[a]?.number === binding.number) delete next[a];
+  });
+  bindings = { ...next, [action]: binding };
+  learning = null;
+  save();
+  notify();
+}
+
+function actionFor(kind: ControlBinding['kind'], number: number) {
+  return (Object.keys(bindings) as ControlAction[]).find(a => bindings[a]?.kind === kind && bindings[a]?.number === number);
+}
+
+export function setControlHandler(action: ControlAction, fn: (() => void) | null) {
+  if (fn) handlers[action] = fn;
+  else delete handlers[action];
+}
+
+// Called for every incoming note; true when the note belongs to a control and should not play a pad
+export function handleControlNote(note: number, velocity: number) {
+  if (learning && velocity > 0) {
+    bind({ kind: 'note', number: note });
+    return true;
+  }
+  const action = actionFor('note', note);
+  if (!action) return false;
+  if (velocity > 0) handlers[action]?.();
+  return true;
+}
+
+// Same for CCs: a press is the value crossing the threshold upwards, like a pad bound to a CC
+export function handleControlCc(cc: number, value: number) {
+  const isDown = value >= CC_PRESS_THRESHOLD;
+  const wasDown = ccDown.get(cc) || false;
+  ccDown.set(cc, isDown);
+  if (learning && isDown) {
+    bind({ kind: 'cc', number: cc });
+    return true;
+  }
+  const action = actionFor('cc', cc);
+  if (!action) return false;
+  if (isDown && !wasDown) handlers[action]?.();
+  return true;
+}
+
+export function subscribeControls(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
@@ -0,0 +1,195 @@
+import { DRUM_FALLBACK, DRUM_LABELS, DrumNote } from '../engine/DrumMap';
+
+// Semantic drum pads (avoid magic numbers in the app): one per GM percussion note.
+// The first eleven are the core kit that every kit and the synth provide.
+export enum DrumPad {
+  Kick = 'Kick',
+  Snare = 'Snare',
+  Stick = 'Stick',
+  HiHatClosed = 'HiHatClosed',
+  HiHatOpen = 'HiHatOpen',
+  HiHatPedal = 'HiHatPedal',
+  Crash = 'Crash', // supports 14" / 18" variants
+  Ride = 'Ride',
+  TomHigh = 'TomHigh',
+  TomMid = 'TomMid',
+  TomFloor = 'TomFloor',
+  AcousticKick = 'AcousticKick',
+  Clap = 'Clap',
+  ElectricSnare = 'ElectricSnare',
+  HighFloorTom = 'HighFloorTom',
+  LowMidTom = 'LowMidTom',
+  HighTom = 'HighTom',
+  China = 'China',
+  RideBell = 'RideBell',
+  Tambourine = 'Tambourine',
+  Splash = 'Splash',
+  Cowbell = 'Cowbell',
+  Crash2 = 'Crash2',
+  Vibraslap = 'Vibraslap',
+  Ride2 = 'Ride2',
+  HiBongo = 'HiBongo',
+  LowBongo = 'LowBongo',
+  MuteHiConga = 'MuteHiConga',
+  OpenHiConga = 'OpenHiConga',
+  LowConga = 'LowConga',
+  HighTimbale = 'HighTimbale',
+  LowTimbale = 'LowTimbale',
+  HighAgogo = 'HighAgogo',
+  LowAgogo = 'LowAgogo',
+  Cabasa = 'Cabasa',
+  Maracas = 'Maracas',
+  ShortWhistle = 'ShortWhistle',
+  LongWhistle = 'LongWhistle',
+  ShortGuiro = 'ShortGuiro',
+  LongGuiro = 'LongGuiro',
+  Claves = 'Claves',
+  HiWoodBlock = 'HiWoodBlock',
+  LowWoodBlock = 'LowWoodBlock',
+  MuteCuica = 'MuteCuica',
+  OpenCuica = 'OpenCuica',
+  MuteTriangle = 'MuteTriangle',
+  OpenTriangle = 'OpenTriangle',
+}
+
+// MIDI Control Change semantics used
+export enum MidiCC {
+  FootController = 4,
+  SustainPedal = 64,
+}
+
+// One place to convert semantic pads <-> GM notes
+const PAD_TO_MIDI: Record<DrumPad, DrumNote> = {
+  [DrumPad.Kick]: DrumNote.Kick,
+  [DrumPad.Snare]: DrumNote.Snare,
+  [DrumPad.Stick]: DrumNote.SideStick,
+  [DrumPad.HiHatClosed]: DrumNote.ClosedHat,
+  [DrumPad.HiHatPedal]: DrumNote.PedalHat,
+  [DrumPad.HiHatOpen]: DrumNote.OpenHat,
+  [DrumPad.Crash]: DrumNote.Crash1,
+  [DrumPad.Ride]: DrumNote.Ride1,
+  [DrumPad.TomHigh]: DrumNote.HiMidTom,
+  [DrumPad.TomMid]: DrumNote.LowTom,
+  [DrumPad.TomFloor]: DrumNote.LowFloorTom,
+  [DrumPad.AcousticKick]: DrumNote.AcousticKick,
+  [DrumPad.Clap]: DrumNote.Clap,
+  [DrumPad.ElectricSnare]: DrumNote.ElectricSnare,
+  [DrumPad.HighFloorTom]: DrumNote.HighFloorTom,
+  [DrumPad.LowMidTom]: DrumNote.LowMidTom,
+  [DrumPad.HighTom]: DrumNote.HighTom,
+  [DrumPad.China]: DrumNote.China,
+  [DrumPad.RideBell]: DrumNote.RideBell,
+  [DrumPad.Tambourine]: DrumNote.Tambourine,
+  [DrumPad.Splash]: DrumNote.Splash,
+  [DrumPad.Cowbell]: DrumNote.Cowbell,
+  [DrumPad.Crash2]: DrumNote.Crash2,
+  [DrumPad.Vibraslap]: DrumNote.Vibraslap,
+  [DrumPad.Ride2]: DrumNote.Ride2,
+  [DrumPad.HiBongo]: DrumNote.HiBongo,
+  [DrumPad.LowBongo]: DrumNote.LowBongo,
+  [DrumPad.MuteHiConga]: DrumNote.MuteHiConga,
+  [DrumPad.OpenHiConga]: DrumNote.OpenHiConga,
+  [DrumPad.LowConga]: DrumNote.LowConga,
+  [DrumPad.HighTimbale]: DrumNote.HighTimbale,
+  [DrumPad.LowTimbale]: DrumNote.LowTimbale,
+  [DrumPad.HighAgogo]: DrumNote.HighAgogo,
+  [DrumPad.LowAgogo]: DrumNote.LowAgogo,
+  [DrumPad.Cabasa]: DrumNote.Cabasa,
+  [DrumPad.Maracas]: DrumNote.Maracas,
+  [DrumPad.ShortWhistle]: DrumNote.ShortWhistle,
+  [DrumPad.LongWhistle]: DrumNote.LongWhistle,
+  [DrumPad.ShortGuiro]: DrumNote.ShortGuiro,
+  [DrumPad.LongGuiro]: DrumNote.LongGuiro,
+  [DrumPad.Claves]: DrumNote.Claves,
+  [DrumPad.HiWoodBlock]: DrumNote.HiWoodBlock,
+  [DrumPad.LowWoodBlock]: DrumNote.LowWoodBlock,
+  [DrumPad.MuteCuica]: DrumNote.MuteCuica,
+  [DrumPad.OpenCuica]: DrumNote.OpenCuica,
+  [DrumPad.MuteTriangle]: DrumNote.MuteTriangle,
+  [DrumPad.OpenTriangle]: DrumNote.OpenTriangle,
+};
+
+const MIDI_TO_PAD: Record<number, DrumPad> = Object.fromEntries(
+  Object.entries(PAD_TO_MIDI).map(([pad, midi]) => [midi as number, pad as unknown as DrumPad])
+) as Record<number, DrumPad>;
+
+export function midiNoteToPad(noteNumber: number): DrumPad | null {
+  return MIDI_TO_PAD[noteNumber] ?? null;
+}
+
+export function padToMidi(pad: DrumPad): number {
+  return PAD_TO_MIDI[pad];
+}
+
+const NOTE_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Engines accept MIDI numbers, note names ("D1", octave -1 starts at 0) or pad names
+export function noteToPad(note: string | number): DrumPad | null {
+  if (typeof note === 'number') return midiNoteToPad(note);
+  if (note in PAD_TO_MIDI) return note as DrumPad;
+  const m = /^([A-G])([#b]?)(-?\d+)$/.exec(note.trim());
+  if (!m) return null;
+  const accidental = m[2] === '#' ? 1 : m[2] === 'b' ? -1 : 0;
+  return midiNoteToPad((Number(m[3]) + 1) * 12 + NOTE_SEMITONES[m[1]] + accidental);
+}
+
+// Grid labels for the core kit; the other pads use their GM label
+const PAD_LABELS: Partial<Record<DrumPad, string>> = {
+  [DrumPad.Kick]: 'Kick',
+  [DrumPad.Snare]: 'Snare',
+  [DrumPad.Stick]: 'Stick',
+  [DrumPad.HiHatClosed]: 'HH Close',
+  [DrumPad.HiHatPedal]: 'HH Pedal',
+  [DrumPad.HiHatOpen]: 'HH Open',
+  [DrumPad.Crash]: 'Crash',
+  [DrumPad.Ride]: 'Ride',
+  [DrumPad.TomHigh]: 'Tom H',
+  [DrumPad.TomMid]: 'Tom M',
+  [DrumPad.TomFloor]: 'Tom F',
+};
+
+const CORE_PADS: DrumPad[] = [
+  DrumPad.Kick,
+  DrumPad.Snare,
+  DrumPad.Stick,
+  DrumPad.HiHatClosed,
+  DrumPad.HiHatPedal,
+  DrumPad.HiHatOpen,
+  DrumPad.Crash,
+  DrumPad.Ride,
+  DrumPad.TomHigh,
+  DrumPad.TomMid,
+  DrumPad.TomFloor,
+];
+
+export function isCorePad(pad: DrumPad) {
+  return CORE_PADS.includes(pad);
+}
+
+export function padLabel(pad: DrumPad) {
+  return PAD_LABELS[pad] ?? DRUM_LABELS[PAD_TO_MIDI[pad]];
+}
+
+// The pad itself, then ever more distant stand-ins, ending on a core pad
+export function padFallbacks(pad: DrumPad): DrumPad[] {
+  const chain = [pad];
+  let note = DRUM_FALLBACK[PAD_TO_MIDI[pad]];
+  while (note != null) {
+    chain.push(MIDI_TO_PAD[note]);
+    note = DRUM_FALLBACK[note];
+  }
+  return chain;
+}
+
+// Closest pad that can actually sound, e.g. Crash for a Splash in a kit without one
+export function resolvePad(pad: DrumPad, available: (pad: DrumPad) => boolean): DrumPad | null {
+  return padFallbacks(pad).find(available) ?? null;
+}
+
+// Core pads first, then the rest of the GM map in note order; `include` narrows the rest
+export function listGmPads(include: (pad: DrumPad) => boolean = () => true) {
+  const extra = (Object.values(DrumPad) as DrumPad[])
+    .filter(p => !isCorePad(p) && include(p))
+    .sort((a, b) => PAD_TO_MIDI[a] - PAD_TO_MIDI[b]);
+  return [...CORE_PADS, ...extra].map(p => ({ pad: p, midi: PAD_TO_MIDI[p] as number, label: padLabel(p) }));
+}
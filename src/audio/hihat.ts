@@ -0,0 +1,81 @@
+// Hi-hat pedal model: CC4 position -> articulation, plus "chick" detection on fast closes.
+
+export type HiHatArticulation = 'closed' | 'quarter' | 'half' | 'open';
+
+// Openness (0 closed .. 1 open) zone boundaries
+const QUARTER_FROM = 0.15;
+const HALF_FROM = 0.4;
+const OPEN_FROM = 0.75;
+
+export const HI_HAT_QUARTER_OPENNESS = QUARTER_FROM;
+
+// Ring times (seconds): a closed stick tick and a fully open hat
+export const HI_HAT_CLOSED_DECAY = 0.16;
+export const HI_HAT_OPEN_DECAY = 0.9;
+
+// A close counts as a chick when the pedal travels from at least this open
+// down to the closed zone within the window below.
+const CHICK_FROM = 0.35;
+const CHICK_WINDOW_MS = 120;
+// Travel speed (openness per ms) that maps to full velocity
+const CHICK_FULL_SPEED = 0.02;
+const CHICK_MIN_VELOCITY = 30;
+
+export function hiHatArticulation(openness: number): HiHatArticulation {
+  if (openness >= OPEN_FROM) return 'open';
+  if (openness >= HALF_FROM) return 'half';
+  if (openness >= QUARTER_FROM) return 'quarter';
+  return 'closed';
+}
+
+// Ring time for partially open hats, between the closed tick and a full open hat
+export function hiHatDecay(openness: number) {
+  return HI_HAT_CLOSED_DECAY + (HI_HAT_OPEN_DECAY - HI_HAT_CLOSED_DECAY) * openness;
+}
+
+export type PedalEvent =
+  | { type: 'chick'; velocity: number } // fast close: foot chick + choke
+  | { type: 'close' } // slow close: just choke the ringing hat
+  | null;
+
+export type HiHatPedal = {
+  update: (openness: number, nowMs: number) => PedalEvent;
+  openness: () => number;
+  seen: () => boolean;
+};
+
+export function createHiHatPedal(): HiHatPedal {
+  let current = 0;
+  let seen = false;
+  // Recent positions, newest last, trimmed to the chick window
+  let history: { t: number; v: number }[] = [];
+
+  return {
+    update(openness, nowMs) {
+      const prev = current;
+      current = Math.max(0, Math.min(1, openness));
+      seen = true;
+      history.push({ t: nowMs, v: current });
+      history = history.filter(h => nowMs - h.t <= CHICK_WINDOW_MS);
+      const closedNow = hiHatArticulation(current) === 'closed';
+      const wasClosed = hiHatArticulation(prev) === 'closed';
+      if (!closedNow || wasClosed) return null;
+      // Find the most open point inside the window to judge speed
+      let peak = history[0];
+      for (const h of history) if (h.v > peak.v) peak = h;
+      if (peak.v >= CHICK_FROM) {
+        const speed = (peak.v - current) / Math.max(1, nowMs - peak.t);
+        const velocity = Math.round(CHICK_MIN_VELOCITY + Math.min(1, speed / CHICK_FULL_SPEED) * (127 - CHICK_MIN_VELOCITY));
+        history = [];
+        return { type: 'chick', velocity };
+      }
+      return { type: 'close' };
+    },
+    openness() {
+      return current;
+    },
+    seen() {
+      return seen;
+    },
+  };
+}
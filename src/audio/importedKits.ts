@@ -0,0 +1,43 @@
+import type { KitManifest } from './kits';
+import { idbDelete, idbGet, idbGetAll, idbPut } from '../lib/idb';
+
+// Kits imported from Hydrogen/SFZ live in IndexedDB: a regular manifest whose
+// sample paths are keys into the stored files.
+export type ImportedKitRecord = {
+  id: string;
+  manifest: KitManifest;
+  files: Record<string, Blob>;
+  importedAt: number;
+};
+
+const STORE = 'imported_kits';
+
+export const IMPORTED_KIT_PREFIX = 'import:';
+
+export function isImportedKitId(id: string) {
+  return id.startsWith(IMPORTED_KIT_PREFIX);
+}
+
+function slugify(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'kit';
+}
+
+export async function saveImportedKit(manifest: KitManifest, files: Record<string, Blob>) {
+  const id = `${IMPORTED_KIT_PREFIX}${slugify(manifest.name)}-${Date.now().toString(36)}`;
+  const record: ImportedKitRecord = { id, manifest, files, importedAt: Date.now() };
+  await idbPut(STORE, id, record);
+  return id;
+}
+
+export function readImportedKit(id: string) {
+  return idbGet<ImportedKitRecord>(STORE, id);
+}
+
+export async function listImportedKitRecords() {
+  const all = await idbGetAll<ImportedKitRecord>(STORE);
+  return all.filter(r => r?.id && r.manifest).sort((a, b) => a.importedAt - b.importedAt);
+}
+
+export function deleteImportedKitRecord(id: string) {
+  return idbDelete(STORE, id);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { readKitFiles } from './kitImport';
+
+// One ustar entry: a 512-byte header (name, octal size, type '0') and the data padded to a block
+function tarEntry(path: string, data: Uint8Array) {
+  const header = new Uint8Array(512);
+  const write = (offset: number, text: string) => header.set(new TextEncoder().encode(text), offset);
+  write(0, path);
+  write(124, data.length.toString(8).padStart(11, '0'));
+  header[156] = '0'.charCodeAt(0);
+  write(257, 'ustar');
+  const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  body.set(data);
+  return [header, body];
+}
+
+async function gzipped(entries: Record<string, string>) {
+  const parts = Object.entries(entries).flatMap(([path, text]) => tarEntry(path, new TextEncoder().encode(text)));
+  const tar = new Blob([...parts, new Uint8Array(1024)]);
+  return new Response(tar.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+}
+
+describe('kit archives', () => {
+  it('unpacks a gzipped archive', async () => {
+    const archive = await gzipped({
+      'Brush Kit/brush.sfz': '<region> sample=samples/kick.wav key=36',
+      'Brush Kit/samples/kick.wav': 'RIFF',
+    });
+    const kit = await readKitFiles([new File([archive], 'Brush Kit.tgz')]);
+    expect(kit.format).toBe('sfz');
+    expect(kit.name).toBe('brush');
+    expect(kit.instruments).toMatchObject([{ note: 36, layers: [{ samples: ['samples/kick.wav'] }] }]);
+    expect(await kit.files['samples/kick.wav'].text()).toBe('RIFF');
+  });
+});
@@ -0,0 +1,360 @@
+import { DrumPad, midiNoteToPad } from './drumPads';
+import type { KitManifest, KitPadManifest } from './kits';
+import { CHOKE_GROUP_COUNT } from './padSettings';
+import { saveImportedKit } from './importedKits';
+import { gunzip, isGzip, untar } from '../lib/tar';
+import { DRUM_LABELS, DrumNote } from '../engine/DrumMap';
+
+// Format-neutral result of reading a Hydrogen or SFZ kit, before the user maps it onto pads
+export type ImportLayer = {
+  velocity: [number, number];
+  samples: string[]; // keys into KitImport.files, round-robin order
+};
+
+export type ImportedInstrument = {
+  name: string;
+  note: number | null; // GM note declared by the source, if any
+  layers: ImportLayer[]; // soft -> hard
+  chokeGroup: string | null; // source group id; instruments sharing one cut each other
+  selfChoke: boolean;
+};
+
+export type KitImport = {
+  format: 'hydrogen' | 'sfz';
+  name: string;
+  description?: string;
+  instruments: ImportedInstrument[];
+  files: Record<string, Blob>; // sample path -> data
+  warnings: string[]; // things that could not be carried over
+};
+
+export type ImportMapping = (DrumPad | null)[]; // target pad per instrument, null = skip
+
+export type SampleFiles = Record<string, Blob>; // path relative to the kit definition -> data
+
+const ARCHIVE_EXT = /\.(h2drumkit|tar|tgz|tar\.gz)$/i;
+
+function normalizePath(path: string) {
+  return path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/{2,}/g, '/');
+}
+
+function dirOf(path: string) {
+  const i = path.lastIndexOf('/');
+  return i >= 0 ? path.slice(0, i + 1) : '';
+}
+
+function relativeTo(dir: string, files: { path: string; blob: Blob }[]): SampleFiles {
+  const out: SampleFiles = {};
+  files.forEach(f => {
+    if (f.path.startsWith(dir)) out[f.path.slice(dir.length)] = f.blob;
+  });
+  return out;
+}
+
+// Sample references are matched leniently: exact path, then case-insensitive, then by file name
+function findSampleFile(files: SampleFiles, path: string): string | null {
+  const wanted = normalizePath(path);
+  if (files[wanted]) return wanted;
+  const lower = wanted.toLowerCase();
+  const keys = Object.keys(files);
+  const exact = keys.find(k => k.toLowerCase() === lower);
+  if (exact) return exact;
+  const suffix = keys.find(k => k.toLowerCase().endsWith(`/${lower}`));
+  if (suffix) return suffix;
+  const base = lower.split('/').pop();
+  return keys.find(k => k.toLowerCase().split('/').pop() === base) ?? null;
+}
+
+function clampImportVelocity(v: number) {
+  return Math.max(1, Math.min(127, Math.round(v)));
+}
+
+// Regions with the same velocity range become one layer with round-robin samples
+function groupLayers(entries: { velocity: [number, number]; sample: string }[]): ImportLayer[] {
+  const byRange = new Map<string, ImportLayer>();
+  entries.forEach(({ velocity, sample }) => {
+    const key = velocity.join('-');
+    const layer = byRange.get(key);
+    if (layer) {
+      if (!layer.samples.includes(sample)) layer.samples.push(sample);
+    } else {
+      byRange.set(key, { velocity, samples: [sample] });
+    }
+  });
+  return [...byRange.values()].sort((a, b) => a.velocity[0] - b.velocity[0]);
+}
+
+function noteLabel(note: number | null) {
+  return note != null ? DRUM_LABELS[note as DrumNote] ?? `Note ${note}` : 'Unnamed';
+}
+
+// --- Hydrogen (drumkit.xml) ---
+
+function childElements(parent: Element, tag: string) {
+  return Array.from(parent.children).filter(c => c.tagName === tag);
+}
+
+function childText(parent: Element, tag: string) {
+  return childElements(parent, tag)[0]?.textContent?.trim() ?? '';
+}
+
+function parseHydrogenKit(xmlText: string, files: SampleFiles): KitImport {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.tagName !== 'drumkit_info' || doc.getElementsByTagName('parsererror').length) {
+    throw new Error('drumkit.xml is not a Hydrogen drum kit');
+  }
+  const warnings: string[] = [];
+  const instruments: ImportedInstrument[] = [];
+  const list = childElements(root, 'instrumentList')[0];
+  (list ? childElements(list, 'instrument') : []).forEach((el, index) => {
+    const name = childText(el, 'name') || `Instrument ${index + 1}`;
+    const noteText = childText(el, 'midiOutNote');
+    const note = noteText !== '' && Number.isFinite(Number(noteText)) ? Number(noteText) : null;
+    // 0.9.7+ nests layers in components (we take the first); older kits list them directly,
+    // and the oldest have a single <filename> on the instrument itself
+    const component = childElements(el, 'instrumentComponent')[0];
+    const layerEls = childElements(component ?? el, 'layer');
+    const entries: { velocity: [number, number]; sample: string }[] = [];
+    const sources = layerEls.length ? layerEls : childText(el, 'filename') ? [el] : [];
+    sources.forEach(layer => {
+      const filename = childText(layer, 'filename');
+      if (!filename) return;
+      const path = findSampleFile(files, filename);
+      if (!path) {
+        warnings.push(`${name}: missing sample ${filename}`);
+        return;
+      }
+      const min = layer === el ? 0 : Number(childText(layer, 'min') || 0);
+      const max = layer === el ? 1 : Number(childText(layer, 'max') || 1);
+      entries.push({ velocity: [clampImportVelocity(min * 127), clampImportVelocity(max * 127)], sample: path });
+    });
+    if (childElements(el, 'instrumentComponent').length > 1) warnings.push(`${name}: only the first component is imported`);
+    const muteGroup = Number(childText(el, 'muteGroup') || -1);
+    instruments.push({
+      name,
+      note,
+      layers: groupLayers(entries),
+      chokeGroup: Number.isFinite(muteGroup) && muteGroup >= 0 ? `mute:${muteGroup}` : null,
+      selfChoke: false,
+    });
+  });
+  if (!instruments.length) throw new Error('drumkit.xml does not list any instruments');
+  return {
+    format: 'hydrogen',
+    name: childText(root, 'name') || 'Hydrogen kit',
+    description: childText(root, 'info').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() || undefined,
+    instruments,
+    files,
+    warnings,
+  };
+}
+
+// --- SFZ ---
+
+const SFZ_NOTE_SEMITONES: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+// SFZ accepts numbers or note names, with c4 = 60
+function parseSfzNote(value: string | undefined): number | null {
+  if (value == null) return null;
+  if (/^-?\d+$/.test(value)) return Number(value);
+  const m = /^([a-g])([#b]?)(-?\d+)$/i.exec(value);
+  if (!m) return null;
+  const accidental = m[2] === '#' ? 1 : m[2] === 'b' ? -1 : 0;
+  return (Number(m[3]) + 1) * 12 + SFZ_NOTE_SEMITONES[m[1].toLowerCase()] + accidental;
+}
+
+type SfzOpcodes = Record<string, string>;
+
+// Headers and opcodes; an opcode's value runs until the next opcode so sample paths may contain spaces
+function parseSfzSections(text: string) {
+  const clean = text.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/\/\/.*$/gm, ' ');
+  const sections: { header: string; opcodes: SfzOpcodes }[] = [];
+  const headerRe = /<(\w+)>/g;
+  const headers = [...clean.matchAll(headerRe)];
+  headers.forEach((h, i) => {
+    const body = clean.slice(h.index! + h[0].length, i + 1 < headers.length ? headers[i + 1].index : clean.length);
+    const opcodes: SfzOpcodes = {};
+    const opRe = /([A-Za-z0-9_]+)=/g;
+    const ops = [...body.matchAll(opRe)];
+    ops.forEach((op, j) => {
+      const end = j + 1 < ops.length ? ops[j + 1].index! : body.length;
+      opcodes[op[1].toLowerCase()] = body.slice(op.index! + op[0].length, end).trim();
+    });
+    sections.push({ header: h[1].toLowerCase(), opcodes });
+  });
+  return sections;
+}
+
+// GM percussion spans these notes; wider key ranges are clipped to it
+const GM_PERCUSSION_MIN = 27;
+const GM_PERCUSSION_MAX = 87;
+
+function parseSfzKit(text: string, files: SampleFiles, name: string): KitImport {
+  const warnings: string[] = [];
+  let control: SfzOpcodes = {};
+  let global: SfzOpcodes = {};
+  let master: SfzOpcodes = {};
+  let group: SfzOpcodes = {};
+  const byNote = new Map<number, { name?: string; entries: { velocity: [number, number]; sample: string; seq: number }[]; groups: Set<string>; offBy: Set<string> }>();
+  const missing = new Set<string>();
+  let skipped = 0;
+  // Group ids linked by off_by end up in one choke group
+  const links = new Map<string, string>();
+  const find = (g: string): string => {
+    const parent = links.get(g);
+    if (!parent || parent === g) return g;
+    const root = find(parent);
+    links.set(g, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) links.set(ra, rb);
+  };
+
+  parseSfzSections(text).forEach(({ header, opcodes }) => {
+    switch (header) {
+      case 'control':
+        control = opcodes;
+        return;
+      case 'global':
+        global = opcodes;
+        master = {};
+        group = {};
+        return;
+      case 'master':
+        master = opcodes;
+        group = {};
+        return;
+      case 'group':
+        group = opcodes;
+        return;
+      case 'region':
+        break;
+      default:
+        return;
+    }
+    const op: SfzOpcodes = { ...global, ...master, ...group, ...opcodes };
+    if (!op.sample || (op.trigger && op.trigger !== 'attack')) {
+      skipped++;
+      return;
+    }
+    const samplePath = `${control.default_path ?? ''}${op.sample}`;
+    const path = findSampleFile(files, samplePath);
+    if (!path) {
+      missing.add(samplePath);
+      return;
+    }
+    const lo = parseSfzNote(op.lokey ?? op.key);
+    const hi = parseSfzNote(op.hikey ?? op.key);
+    if (lo == null || hi == null) {
+      skipped++;
+      return;
+    }
+    const velocity: [number, number] = [clampImportVelocity(Number(op.lovel ?? 1)), clampImportVelocity(Number(op.hivel ?? 127))];
+    const sfzGroup = op.group && op.group !== '0' ? op.group : null;
+    const offBy = op.off_by && op.off_by !== '0' ? op.off_by : null;
+    if (sfzGroup && offBy) union(sfzGroup, offBy);
+    for (let note = Math.max(lo, GM_PERCUSSION_MIN); note <= Math.min(hi, GM_PERCUSSION_MAX); note++) {
+      let inst = byNote.get(note);
+      if (!inst) {
+        inst = { entries: [], groups: new Set(), offBy: new Set() };
+        byNote.set(note, inst);
+      }
+      inst.name ??= op.region_label ?? op.group_label ?? op.master_label;
+      inst.entries.push({ velocity, sample: path, seq: Number(op.seq_position ?? 1) });
+      if (sfzGroup) inst.groups.add(sfzGroup);
+      if (offBy) inst.offBy.add(offBy);
+    }
+  });
+
+  missing.forEach(p => warnings.push(`Missing sample ${p}`));
+  if (skipped) warnings.push(`${skipped} region(s) skipped (release triggers or no key)`);
+  const instruments: ImportedInstrument[] = [...byNote.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([note, inst]) => {
+      const group = [...inst.groups][0];
+      return {
+        name: inst.name || noteLabel(note),
+        note,
+        layers: groupLayers([...inst.entries].sort((a, b) => a.seq - b.seq)),
+        chokeGroup: group ? `sfz:${find(group)}` : null,
+        // A region cut by its own group is monophonic
+        selfChoke: [...inst.groups].some(g => inst.offBy.has(g)),
+      };
+    });
+  if (!instruments.length) throw new Error('The .sfz file has no playable drum regions');
+  return { format: 'sfz', name, instruments, files, warnings };
+}
+
+// --- Reading files ---
+
+async function readArchive(file: File) {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const tar = isGzip(head) ? await gunzip(file) : new Uint8Array(await file.arrayBuffer());
+  return untar(tar).map(e => ({ path: normalizePath(e.path), blob: new Blob([e.data.slice()]) }));
+}
+
+// Accepts a .h2drumkit archive, or a drumkit.xml / .sfz picked together with its samples
+export async function readKitFiles(picked: File[]): Promise<KitImport> {
+  const archive = picked.find(f => ARCHIVE_EXT.test(f.name));
+  const files = archive
+    ? await readArchive(archive)
+    : picked.map(f => ({ path: normalizePath(f.webkitRelativePath || f.name), blob: f as Blob }));
+
+  const byDepth = (a: { path: string }, b: { path: string }) => a.path.split('/').length - b.path.split('/').length;
+  const xml = files.filter(f => /(^|\/)drumkit\.xml$/i.test(f.path)).sort(byDepth)[0];
+  if (xml) return parseHydrogenKit(await xml.blob.text(), relativeTo(dirOf(xml.path), files));
+  const sfz = files.filter(f => /\.sfz$/i.test(f.path)).sort(byDepth)[0];
+  if (sfz) {
+    const name = sfz.path.split('/').pop()!.replace(/\.sfz$/i, '');
+    return parseSfzKit(await sfz.blob.text(), relativeTo(dirOf(sfz.path), files), name);
+  }
+  throw new Error(archive ? `No drumkit.xml found in ${archive.name}` : 'Pick a .h2drumkit archive, or a drumkit.xml or .sfz file with its samples.');
+}
+
+// Exact GM notes land on their pad; everything else waits for the review screen
+export function suggestMapping(kit: KitImport): ImportMapping {
+  const taken = new Set<DrumPad>();
+  return kit.instruments.map(inst => {
+    const pad = inst.note != null ? midiNoteToPad(inst.note) : null;
+    if (!pad || taken.has(pad) || !inst.layers.length) return null;
+    taken.add(pad);
+    return pad;
+  });
+}
+
+// Build a regular kit manifest from the mapped instruments (the first one mapped to a pad wins)
+export function buildImportManifest(kit: KitImport, mapping: ImportMapping, name = kit.name) {
+  const pads: KitManifest['pads'] = {};
+  const groups = new Map<string, number>();
+  const used: SampleFiles = {};
+  const warnings: string[] = [];
+  kit.instruments.forEach((inst, i) => {
+    const pad = mapping[i];
+    if (!pad || pads[pad] || !inst.layers.length) return;
+    let chokeGroup: number | null = null;
+    if (inst.chokeGroup != null) {
+      if (!groups.has(inst.chokeGroup) && groups.size < CHOKE_GROUP_COUNT) groups.set(inst.chokeGroup, groups.size + 1);
+      chokeGroup = groups.get(inst.chokeGroup) ?? null;
+      if (chokeGroup == null) warnings.push(`${inst.name}: only ${CHOKE_GROUP_COUNT} choke groups are supported`);
+    }
+    const entry: KitPadManifest = {
+      layers: inst.layers.map(l => ({ velocity: l.velocity, samples: l.samples })),
+      chokeGroup,
+    };
+    if (inst.selfChoke) entry.selfChoke = true;
+    pads[pad] = entry;
+    inst.layers.forEach(l => l.samples.forEach(s => (used[s] = kit.files[s])));
+  });
+  if (!Object.keys(pads).length) throw new Error('Map at least one instrument to a pad');
+  const manifest: KitManifest = { name: name.trim() || kit.name, description: kit.description, pads };
+  return { manifest, files: used, warnings };
+}
+
+export async function importKit(kit: KitImport, mapping: ImportMapping, name?: string) {
+  const { manifest, files } = buildImportManifest(kit, mapping, name);
+  return saveImportedKit(manifest, files);
+}
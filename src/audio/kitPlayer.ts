@@ -0,0 +1,130 @@
+import * as Tone from 'tone';
+import type { DrumPad } from './sampler';
+import { Kit, KitPad, pickKitLayer } from './kits';
+
+// Same envelope defaults Tone.Sampler used for our one-shots
+const RELEASE_DEFAULT = 0.1;
+
+export type TriggerOptions = {
+  duration?: number; // seconds; stop (with release fade) after this long
+  samples?: KitPad | DrumPad; // play these samples, or another pad's, instead of the pad's own (e.g. half-open hat)
+  playbackRate?: number; // 1 = native pitch
+  release?: number; // seconds to fade when stopped after `duration`
+};
+
+export type KitPlayer = {
+  kit: Kit;
+  loaded: Promise<void>;
+  has: (pad: DrumPad) => boolean;
+  trigger: (pad: DrumPad, velocity: number, time: number, opts?: TriggerOptions) => void;
+  release: (pad: DrumPad, time: number, fade?: number) => void;
+  // Replace one pad's samples with a single user buffer; null restores the kit's
+  setPadBuffer: (pad: DrumPad, buffer: AudioBuffer | null) => void;
+  hasPadBuffer: (pad: DrumPad) => boolean;
+  dispose: () => void;
+};
+
+// One-shot playback for a kit: every hit gets a fresh buffer source picked by
+// velocity layer, alternating round-robin within the layer, routed to its pad's output.
+export function createKitPlayer(kit: Kit, output: (pad: DrumPad) => Tone.InputNode): KitPlayer {
+  const urls = new Set<string>();
+  [...Object.values(kit.pads), kit.hiHat.quarterOpen, kit.hiHat.halfOpen].forEach(p =>
+    p?.layers.forEach(l => l.urls.forEach(u => urls.add(u)))
+  );
+
+  let buffers: Tone.ToneAudioBuffers | null = null;
+  const loaded = new Promise<void>((resolve, reject) => {
+    buffers = new Tone.ToneAudioBuffers({
+      urls: Object.fromEntries([...urls].map(u => [u, u])),
+      onload: () => resolve(),
+      onerror: e => reject(e),
+    });
+  });
+
+  // Next round-robin slot per sample set and layer
+  const roundRobin = new Map<KitPad, number[]>();
+  // Sounding sources per pad, with the time each is already set to end (Infinity if it rings out)
+  const active = new Map<DrumPad, Map<Tone.ToneBufferSource, number>>();
+  const padBuffers = new Map<DrumPad, Tone.ToneAudioBuffer>();
+
+  function nextUrl(entry: KitPad | undefined, velocity: number) {
+    if (!entry) return null;
+    const layerIndex = pickKitLayer(entry, velocity);
+    const layer = entry.layers[layerIndex];
+    let slots = roundRobin.get(entry);
+    if (!slots) {
+      slots = entry.layers.map(() => 0);
+      roundRobin.set(entry, slots);
+    }
+    const slot = slots[layerIndex];
+    slots[layerIndex] = (slot + 1) % layer.urls.length;
+    return layer.urls[slot];
+  }
+
+  function pickBuffer(pad: DrumPad, velocity: number, samples?: KitPad | DrumPad) {
+    const source = samples ?? pad;
+    if (typeof source === 'string') {
+      const own = padBuffers.get(source);
+      if (own) return own;
+    }
+    const url = nextUrl(typeof source === 'string' ? kit.pads[source] : source, velocity);
+    if (!url || !buffers?.has(url)) return null;
+    return buffers.get(url);
+  }
+
+  return {
+    kit,
+    loaded,
+    has(pad) {
+      return !!kit.pads[pad] || padBuffers.has(pad);
+    },
+    trigger(pad, velocity, time, opts = {}) {
+      const buffer = pickBuffer(pad, velocity, opts.samples);
+      if (!buffer?.loaded) return;
+      const source = new Tone.ToneBufferSource({
+        url: buffer,
+        curve: 'exponential',
+        fadeOut: opts.release ?? RELEASE_DEFAULT,
+        playbackRate: opts.playbackRate ?? 1,
+      }).connect(output(pad));
+      const gain = Math.max(0, Math.min(1, velocity / 127));
+      source.start(time, 0, undefined, gain);
+      const end = opts.duration != null ? time + opts.duration : Infinity;
+      if (end !== Infinity) source.stop(end);
+      let sources = active.get(pad);
+      if (!sources) {
+        sources = new Map();
+        active.set(pad, sources);
+      }
+      sources.set(source, end);
+      source.onended = () => {
+        active.get(pad)?.delete(source);
+      };
+    },
+    // A stop replaces the source's earlier one, so only sources still sounding at
+    // `time` are stopped, and never later than they were going to end
+    release(pad, time, fade) {
+      active.get(pad)?.forEach((end, source, sources) => {
+        if (end <= time) return;
+        if (fade != null) source.fadeOut = fade;
+        source.stop(time);
+        sources.set(source, time);
+      });
+    },
+    setPadBuffer(pad, buffer) {
+      padBuffers.get(pad)?.dispose();
+      if (buffer) padBuffers.set(pad, new Tone.ToneAudioBuffer(buffer));
+      else padBuffers.delete(pad);
+    },
+    hasPadBuffer(pad) {
+      return padBuffers.has(pad);
+    },
+    dispose() {
+      active.forEach(sources => sources.forEach((_, source) => source.dispose()));
+      active.clear();
+      padBuffers.forEach(b => b.dispose());
+      padBuffers.clear();
+      (buffers as Tone.ToneAudioBuffers | null)?.dispose();
+    },
+  };
+}
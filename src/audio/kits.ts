@@ -0,0 +1,272 @@
+import type { DrumPad } from './sampler';
+import { PadSettingsPatch, sanitizePadSettings } from './padSettings';
+import { deleteImportedKitRecord, isImportedKitId, listImportedKitRecords, readImportedKit } from './importedKits';
+
+// Kits live under public/samples/<KitId>/kit.json; the index lists the ids we ship.
+const SAMPLES_BASE = '/samples';
+const KIT_INDEX_URL = `${SAMPLES_BASE}/kits.json`;
+
+export const DEFAULT_KIT_ID = 'GSCW';
+
+// On-disk format: sample paths are relative to the kit folder.
+// A pad declares either one `sample`, a round-robin list of `samples`,
+// or velocity `layers` (soft -> hard), each with its own round-robin samples.
+export type KitLayerManifest = {
+  velocity?: [number, number]; // inclusive MIDI velocity range; split evenly when omitted
+  sample?: string;
+  samples?: string[];
+};
+
+export type KitPadManifest = {
+  sample?: string;
+  samples?: string[];
+  layers?: KitLayerManifest[];
+  // Kit defaults for pad behaviour; users can override them per pad
+  chokeGroup?: number | null;
+  selfChoke?: boolean;
+  chokeFade?: number;
+  aftertouchChoke?: number | null;
+  tune?: number;
+  fine?: number;
+  decay?: number | null;
+  release?: number;
+  lowpass?: number;
+  highpass?: number;
+  velocityBrightness?: number;
+};
+
+export type KitManifest = {
+  name: string;
+  description?: string;
+  pads: Partial<Record<DrumPad, KitPadManifest>>;
+  // Optional in-between hi-hat samples chosen by the CC4 pedal position
+  hiHat?: {
+    quarterOpen?: KitPadManifest;
+    halfOpen?: KitPadManifest;
+  };
+};
+
+// Resolved kit: absolute URLs grouped into velocity layers, ready for the sampler
+export type KitLayer = {
+  minVelocity: number;
+  maxVelocity: number;
+  urls: string[]; // round-robin order
+};
+
+export type KitPad = {
+  layers: KitLayer[];
+  settings: PadSettingsPatch;
+};
+
+export type Kit = {
+  id: string;
+  name: string;
+  description?: string;
+  pads: Partial<Record<DrumPad, KitPad>>;
+  hiHat: {
+    quarterOpen?: KitPad;
+    halfOpen?: KitPad;
+  };
+};
+
+// Pick the layer whose range holds the velocity, else the nearest one (ranges may leave gaps)
+export function pickKitLayer(pad: KitPad, velocity: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  pad.layers.forEach((layer, i) => {
+    const distance = velocity < layer.minVelocity
+      ? layer.minVelocity - velocity
+      : velocity > layer.maxVelocity
+        ? velocity - layer.maxVelocity
+        : 0;
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+export type KitSummary = {
+  id: string;
+  name: string;
+  description?: string;
+};
+
+const kitCache = new Map<string, Promise<Kit>>();
+// Object URLs handed out for imported kits, revoked when the kit is deleted, reloaded or fails to load
+const importedUrls = new Map<string, string[]>();
+let indexPromise: Promise<string[]> | null = null;
+
+async function fetchJson(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load ${url} (${res.status})`);
+  return res.json() as Promise<unknown>;
+}
+
+function kitBase(id: string) {
+  return `${SAMPLES_BASE}/${encodeURIComponent(id)}`;
+}
+
+function resolveSampleUrl(id: string, path: string) {
+  // Absolute URLs (or root-relative paths) are used as-is
+  if (/^([a-z]+:|\/)/i.test(path)) return path;
+  return `${kitBase(id)}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+function sampleList(entry: { sample?: string; samples?: string[] }) {
+  const list = Array.isArray(entry.samples) ? entry.samples : entry.sample != null ? [entry.sample] : [];
+  return list.filter((v): v is string => typeof v === 'string' && !!v);
+}
+
+function clampVelocity(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(1, Math.min(127, Math.round(n))) : fallback;
+}
+
+function parsePad(id: string, entry: KitPadManifest): KitPad | null {
+  const layerEntries: KitLayerManifest[] = Array.isArray(entry.layers) && entry.layers.length ? entry.layers : [entry];
+  const count = layerEntries.length;
+  const layers: KitLayer[] = [];
+  layerEntries.forEach((layer, i) => {
+    const urls = sampleList(layer).map(path => resolveSampleUrl(id, path));
+    if (!urls.length) return;
+    // Even split of 1..127 by position when the manifest leaves ranges out
+    const evenMin = Math.floor((i * 127) / count) + 1;
+    const evenMax = Math.floor(((i + 1) * 127) / count);
+    const range = Array.isArray(layer.velocity) ? layer.velocity : null;
+    const minVelocity = range ? clampVelocity(range[0], evenMin) : evenMin;
+    const maxVelocity = range ? clampVelocity(range[1], evenMax) : evenMax;
+    layers.push({ minVelocity: Math.min(minVelocity, maxVelocity), maxVelocity: Math.max(minVelocity, maxVelocity), urls });
+  });
+  if (!layers.length) return null;
+  layers.sort((a, b) => a.minVelocity - b.minVelocity);
+  return { layers, settings: sanitizePadSettings(entry) };
+}
+
+function parseManifest(id: string, raw: unknown): Kit {
+  const m = raw as Partial<KitManifest> | null;
+  if (!m || typeof m !== 'object' || !m.pads || typeof m.pads !== 'object') {
+    throw new Error(`Kit "${id}" has an invalid kit.json`);
+  }
+  const pads: Kit['pads'] = {};
+  for (const [pad, entry] of Object.entries(m.pads) as [DrumPad, KitPadManifest | undefined][]) {
+    if (!entry || typeof entry !== 'object') continue;
+    const parsed = parsePad(id, entry);
+    if (parsed) pads[pad] = parsed;
+  }
+  if (!Object.keys(pads).length) throw new Error(`Kit "${id}" does not declare any samples`);
+  const hiHat: Kit['hiHat'] = {};
+  if (m.hiHat && typeof m.hiHat === 'object') {
+    if (m.hiHat.quarterOpen) hiHat.quarterOpen = parsePad(id, m.hiHat.quarterOpen) ?? undefined;
+    if (m.hiHat.halfOpen) hiHat.halfOpen = parsePad(id, m.hiHat.halfOpen) ?? undefined;
+  }
+  return {
+    id,
+    name: typeof m.name === 'string' && m.name ? m.name : id,
+    description: typeof m.description === 'string' ? m.description : undefined,
+    pads,
+    hiHat,
+  };
+}
+
+function loadKitIndex() {
+  if (!indexPromise) {
+    indexPromise = fetchJson(KIT_INDEX_URL)
+      .then(raw => (Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string') : []))
+      .catch(e => {
+        // Keep the app usable with the built-in kit if the index is missing
+        console.warn('Kit index unavailable; using default kit only. Error:', e);
+        return [DEFAULT_KIT_ID];
+      });
+  }
+  return indexPromise;
+}
+
+function mapPadSamples(entry: KitPadManifest, map: (path: string) => string): KitPadManifest {
+  return {
+    ...entry,
+    sample: entry.sample != null ? map(entry.sample) : undefined,
+    samples: entry.samples?.map(map),
+    layers: entry.layers?.map(l => ({ ...l, sample: l.sample != null ? map(l.sample) : undefined, samples: l.samples?.map(map) })),
+  };
+}
+
+function revokeImportedUrls(id: string) {
+  importedUrls.get(id)?.forEach(url => URL.revokeObjectURL(url));
+  importedUrls.delete(id);
+}
+
+// Imported kits keep their samples in IndexedDB; point the manifest at object URLs.
+// A reload replaces the kit's URLs, and a failed load leaves none behind.
+async function loadImportedManifest(id: string): Promise<KitManifest> {
+  const record = await readImportedKit(id);
+  if (!record) throw new Error(`Kit "${id}" is no longer available`);
+  revokeImportedUrls(id);
+  const urls = new Map<string, string>();
+  const toUrl = (path: string) => {
+    let url = urls.get(path);
+    if (!url) {
+      const file = record.files[path];
+      if (!file) throw new Error(`Kit "${record.manifest.name}" is missing ${path}`);
+      url = URL.createObjectURL(file);
+      urls.set(path, url);
+    }
+    return url;
+  };
+  try {
+    const pads: KitManifest['pads'] = {};
+    for (const [pad, entry] of Object.entries(record.manifest.pads) as [DrumPad, KitPadManifest | undefined][]) {
+      if (entry) pads[pad] = mapPadSamples(entry, toUrl);
+    }
+    const { quarterOpen, halfOpen } = record.manifest.hiHat ?? {};
+    const hiHat = record.manifest.hiHat && {
+      quarterOpen: quarterOpen && mapPadSamples(quarterOpen, toUrl),
+      halfOpen: halfOpen && mapPadSamples(halfOpen, toUrl),
+    };
+    return { ...record.manifest, pads, hiHat };
+  } finally {
+    importedUrls.set(id, [...urls.values()]);
+  }
+}
+
+export function loadKit(id: string): Promise<Kit> {
+  let pending = kitCache.get(id);
+  if (!pending) {
+    pending = (isImportedKitId(id) ? loadImportedManifest(id) : fetchJson(`${kitBase(id)}/kit.json`)).then(raw => parseManifest(id, raw));
+    // Do not cache failures so a later retry can succeed
+    pending.catch(() => {
+      kitCache.delete(id);
+      revokeImportedUrls(id);
+    });
+    kitCache.set(id, pending);
+  }
+  return pending;
+}
+
+export async function listKits(): Promise<KitSummary[]> {
+  const ids = await loadKitIndex();
+  const results = await Promise.all(
+    ids.map(id =>
+      loadKit(id)
+        .then((kit): KitSummary | null => ({ id: kit.id, name: kit.name, description: kit.description }))
+        .catch(e => {
+          console.warn(`Skipping kit "${id}":`, e);
+          return null;
+        })
+    )
+  );
+  const shipped = results.filter((k): k is KitSummary => k != null);
+  const imported = await listImportedKitRecords().catch(e => {
+    console.warn('Imported kits unavailable:', e);
+    return [];
+  });
+  return [...shipped, ...imported.map(r => ({ id: r.id, name: r.manifest.name, description: r.manifest.description }))];
+}
+
+export async function deleteImportedKit(id: string) {
+  if (!isImportedKitId(id)) throw new Error('Only imported kits can be removed');
+  await deleteImportedKitRecord(id);
+  kitCache.delete(id);
+  revokeImportedUrls(id);
+}
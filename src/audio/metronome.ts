@@ -1,68 +1,552 @@
 import * as Tone from 'tone';
 import { ensureAudioStarted } from './sampler';
+import { getOutputBus } from './outputBus';
+import { emit } from './transportEvents';
+import { decodeSampleFile } from './userSamples';
+import { CLICK_PRESETS, ClickPreset, ClickSlot, ClickVoice, createClickVoice, deleteClickSample, loadClickSamples, saveClickSample } from './clickVoices';
+import { loadJson, saveJson } from '../lib/storage';
 
-type Subscriber = (beatIndex: number, barIndex: number) => void;
+export { CLICK_PRESETS, isSpeechSupported } from './clickVoices';
+export type { ClickPreset, ClickSlot } from './clickVoices';
+
+export type BeatUnit = 2 | 4 | 8 | 16;
+export const BEAT_UNITS: BeatUnit[] = [2, 4, 8, 16];
+export const MAX_BEATS_PER_BAR = 16;
+
+// Ways to group an additive or compound bar into 2s and 3s, most common first.
+// Quarter-note bars only get presets for the odd meters (5/4, 7/4).
+export function groupingPresets(beats: number, unit: BeatUnit): number[][] {
+  if (unit < 8) return beats === 5 || beats === 7 ? rotations(twosAndAThree(beats)) : [];
+  if (beats < 4) return [];
+  const presets: number[][] = [];
+  // Compound meters (6/8, 9/8, 12/8 ...) group in threes
+  if (beats % 3 === 0) presets.push(new Array(beats / 3).fill(3));
+  if (beats % 2 === 1) {
+    presets.push(...rotations(twosAndAThree(beats)));
+  } else if (beats % 3 !== 0) {
+    if (beats >= 8) presets.push([...new Array(beats / 2 - 3).fill(2), 3, 3]);
+    presets.push(new Array(beats / 2).fill(2));
+  }
+  return presets;
+}
+
+function twosAndAThree(beats: number) {
+  return [...new Array((beats - 3) / 2).fill(2), 3];
+}
+
+// 2+2+3, 2+3+2, 3+2+2
+function rotations(groups: number[]) {
+  return groups.map((_, i) => [...groups.slice(groups.length - i), ...groups.slice(0, groups.length - i)]);
+}
+
+// Speed trainer: from startBpm, move `step` BPM towards targetBpm every `everyBars` bars
+export type TrainerSettings = {
+  enabled: boolean;
+  startBpm: number;
+  targetBpm: number;
+  step: number; // BPM per change
+  everyBars: number;
+  loop: boolean; // start over once the target has been played for `everyBars` bars
+};
+
+// Gap click: play `playBars` bars, then stay silent for `muteBars`, repeating.
+// With growBy > 0 the silence gets that many bars longer every cycle, up to maxMuteBars.
+export type GapSettings = {
+  enabled: boolean;
+  playBars: number;
+  muteBars: number;
+  growBy: number;
+  maxMuteBars: number;
+};
+
+// Tempo map: sections played back to back; each one sets tempo, signature and
+// accents on its first bar line. Setlists are built on this.
+export type TempoSection = {
+  label: string;
+  bars: number;
+  bpm: number;
+  beats: number;
+  beatUnit: BeatUnit;
+  accents?: boolean[]; // default: the signature's first grouping preset
+};
+
+export type TempoMapStatus = {
+  sectionIndex: number;
+  label: string;
+  bar: number; // 1-based within the section (or the count-in)
+  bars: number;
+  countIn: boolean;
+};
+
+export type TempoMapOptions = {
+  countInBars?: number; // bars of the first section's click before it starts
+  onBar?: (status: TempoMapStatus) => void; // on every bar line, in sync with the click
+  onEnd?: (completed: boolean) => void; // completed is false when stopped early
+  loop?: boolean; // after the last section, go back to the first (no count-in) until stopped
+};
+
+type TempoMapPlayback = {
+  sections: TempoSection[];
+  countInBars: number;
+  bar: number; // bars since the start, count-in included
+  sectionIndex: number;
+  status: TempoMapStatus | null;
+  loop: boolean;
+  onBar?: TempoMapOptions['onBar'];
+  onEnd?: TempoMapOptions['onEnd'];
+};
+
+// The metronome's own channel, after all of its voices and before the click bus
+export type ClickOutput = {
+  volume: number; // dB
+  pan: number; // -1 (L) .. 1 (R)
+};
+
+export const MIN_CLICK_DB = -40;
+export const MAX_CLICK_DB = 6;
+const CLICK_STORAGE_KEY = 'metronome_click_v1';
+
+export const MIN_BPM = 30;
+export const MAX_BPM = 300;
+
+function clampBpm(value: number) {
+  return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(value)));
+}
+
+// Transport ticks in one beat; Tone's PPQ counts quarter notes, so an eighth-note beat is half that
+export function ticksPerBeat(unit: BeatUnit) {
+  return (Tone.Transport.PPQ * 4) / unit;
+}
+
+// Tone's bpm counts quarter notes; ours counts beats of the beat unit
+function transportBpm(value: number) {
+  return (value * 4) / beatUnit;
+}
+
+// Clicks between the beats: how many pulses each beat is split into
+export type Subdivision = 'quarter' | 'eighth' | 'eighthTriplet' | 'sixteenth' | 'quintuplet' | 'sextuplet';
+
+export const SUBDIVISION_PULSES: Record<Subdivision, number> = {
+  quarter: 1,
+  eighth: 2,
+  eighthTriplet: 3,
+  sixteenth: 4,
+  quintuplet: 5,
+  sextuplet: 6,
+};
+
+// Every sub-pulse belongs to one level, so e.g. the "&" of a 16th grid can be louder than the "e" and "a"
+export type SubdivisionLevel = 'eighth' | 'triplet' | 'sixteenth' | 'quintuplet' | 'sextuplet';
+
+export type ClickSound = 'wood' | 'tick' | 'beep' | 'soft';
+
+export type LevelSettings = {
+  volume: number; // 0..1, on top of the beat's own volume
+  sound: ClickSound;
+};
+
+const CLICK_SOUNDS: Record<ClickSound, { frequency: number; decay: number }> = {
+  wood: { frequency: 1500, decay: 0.04 },
+  tick: { frequency: 2400, decay: 0.02 },
+  beep: { frequency: 1000, decay: 0.06 },
+  soft: { frequency: 600, decay: 0.05 },
+};
+
+const DEFAULT_LEVELS: Record<SubdivisionLevel, LevelSettings> = {
+  eighth: { volume: 0.6, sound: 'wood' },
+  triplet: { volume: 0.5, sound: 'wood' },
+  sixteenth: { volume: 0.4, sound: 'tick' },
+  quintuplet: { volume: 0.45, sound: 'tick' },
+  sextuplet: { volume: 0.4, sound: 'tick' },
+};
+
+// Polyrhythm layer: `pulses` evenly spaced clicks across the same bar as the beats,
+// e.g. 3 pulses over a 2/4 bar is 3:2
+export type PolyLayer = {
+  id: string;
+  pulses: number;
+  sound: ClickSound;
+  volume: number; // 0..1
+  muted: boolean;
+};
+
+export const MAX_LAYERS = 3;
+export const MAX_LAYER_PULSES = 16;
+
+// Which level pulse `index` of `pulses` falls on: the coarsest grid that contains it
+export function subdivisionLevel(index: number, pulses: number): SubdivisionLevel {
+  if (index * 2 === pulses) return 'eighth';
+  if ((index * 3) % pulses === 0) return 'triplet';
+  if ((index * 4) % pulses === 0) return 'sixteenth';
+  return pulses === 5 ? 'quintuplet' : 'sextuplet';
+}
+
+export function levelsFor(subdivision: Subdivision): SubdivisionLevel[] {
+  const pulses = SUBDIVISION_PULSES[subdivision];
+  const levels = new Set<SubdivisionLevel>();
+  for (let i = 1; i < pulses; i++) levels.add(subdivisionLevel(i, pulses));
+  return [...levels];
+}
 
 let initialized = false;
-let sub: Subscriber | null = null;
 let beatsPerBar = 4;
+// Note value of one beat (the time signature's denominator); BPM counts these
+let beatUnit: BeatUnit = 4;
+// Additive meter, e.g. [2, 2, 3] for 7/8; null when the bar is not grouped
+let grouping: number[] | null = null;
 let bpm = 100;
 let isRunning = false;
 let currentBeat = 0;
 let currentBar = 0;
+// Transport tick of the next beat; a new beat unit spaces the beats from the one after
+let nextBeatTick = 0;
 // Accent per beat: true = hard beat
 let accents: boolean[] = new Array(beatsPerBar).fill(false);
 accents[0] = true;
 // Volume per beat, 0..1
 let volumes: number[] = new Array(beatsPerBar).fill(1);
+let subdivision: Subdivision = 'quarter';
+let trainer: TrainerSettings = { enabled: false, startBpm: 80, targetBpm: 120, step: 5, everyBars: 4, loop: false };
+// Bars played at the current trainer tempo, and whether the next bar restarts from startBpm
+let trainerBars = 0;
+let trainerRestart = true;
+let levels: Record<SubdivisionLevel, LevelSettings> = { ...DEFAULT_LEVELS };
+let gap: GapSettings = { enabled: false, playBars: 2, muteBars: 2, growBy: 0, maxMuteBars: 8 };
+// Bar within the current play+silence cycle, the silence length of this cycle, and whether this bar is silent
+let gapBar = 0;
+let gapMuteBars = gap.muteBars;
+let gapRestart = true;
+let barMuted = false;
+let tempoMap: TempoMapPlayback | null = null;
+// Set while an external MIDI clock drives the tempo
+let externalClock = false;
+// Set on the bar line after the last section; nothing plays until the scheduled stop
+let tempoMapEnded = false;
+let layers: PolyLayer[] = [];
+let layerCount = 0;
+// Transport events of layer pulses still to come, cleared on stop
+const pendingLayerEvents = new Set<number>();
+
+let clickPresets: Record<ClickSlot, ClickPreset> = { accent: 'membrane', normal: 'membrane' };
+let clickOutput: ClickOutput = { volume: 0, pan: 0 };
+loadClickSettings();
+// Custom samples per slot, restored from IndexedDB before the first start
+const clickBuffers: Partial<Record<ClickSlot, AudioBuffer>> = {};
+let clickSampleNames: Partial<Record<ClickSlot, string>> = {};
+let samplesRestored: Promise<void> | null = null;
 
 let loop: Tone.Loop | null = null;
-let clickHigh: Tone.MembraneSynth | null = null;
-let clickLow: Tone.MembraneSynth | null = null;
+const clickVoices: Partial<Record<ClickSlot, ClickVoice>> = {};
+let strip: Tone.PanVol | null = null;
+// One voice per click sound, so sub-pulses of different levels never cut each other off
+const subClicks = new Map<ClickSound, Tone.MembraneSynth>();
+// Layers get their own voices too, as their pulses often coincide with the beat
+const layerVoices = new Map<string, Tone.MembraneSynth>();
 let out: Tone.Gain | null = null;
 
 function init() {
   if (initialized) return;
-  out = new Tone.Gain(0.9).toDestination();
-  clickHigh = new Tone.MembraneSynth({ octaves: 2, pitchDecay: 0.005, envelope: { attack: 0.001, decay: 0.08, sustain: 0 } }).connect(out);
-  clickLow = new Tone.MembraneSynth({ octaves: 2, pitchDecay: 0.008, envelope: { attack: 0.001, decay: 0.12, sustain: 0 } }).connect(out);
-  Tone.Transport.bpm.value = bpm;
-  Tone.Transport.timeSignature = beatsPerBar;
+  strip = new Tone.PanVol(clickOutput.pan, clickOutput.volume).connect(getOutputBus('click'));
+  out = new Tone.Gain(0.9).connect(strip);
+  rebuildClickVoice('accent');
+  rebuildClickVoice('normal');
+  (Object.keys(CLICK_SOUNDS) as ClickSound[]).forEach(sound => {
+    const voice = new Tone.MembraneSynth({ octaves: 1, pitchDecay: 0.004, envelope: { attack: 0.001, decay: CLICK_SOUNDS[sound].decay, sustain: 0 } });
+    subClicks.set(sound, voice.connect(out!));
+  });
+  layers.forEach(layer => layerVoices.get(layer.id)?.connect(out!));
+  Tone.Transport.bpm.value = transportBpm(bpm);
+  Tone.Transport.timeSignature = [beatsPerBar, beatUnit];
+  // The loop runs on the grid of the shortest beat unit and picks out the beats by tick,
+  // so a tempo map can change the unit on a bar line (say 7/8 to 4/4) without re-aligning it
   loop = new Tone.Loop(time => {
-    const beatInBar = currentBeat % beatsPerBar;
-    // Play hard vs normal beat based on per-beat accent
-    const vol = Math.max(0, Math.min(1, volumes[beatInBar] ?? 1));
-    if (accents[beatInBar]) {
-      clickHigh!.triggerAttackRelease(1200, '16n', time, 0.9 * vol);
-    } else {
-      clickLow!.triggerAttackRelease(800, '16n', time, 0.6 * vol);
+    const tick = Math.round(Tone.Transport.getTicksAtTime(time));
+    if (tick < nextBeatTick) return;
+    // The bar may have shrunk since the last beat
+    if (currentBeat >= beatsPerBar) currentBeat = 0;
+    const beatInBar = currentBeat;
+    // Tempo steps land exactly on the bar line, before its first click
+    if (beatInBar === 0 && !tempoMapEnded) tempoMapDownbeat(time);
+    if (tempoMapEnded) return;
+    if (beatInBar === 0) {
+      // A tempo map or an external clock owns the tempo; the trainer would fight it
+      if (!tempoMap && !externalClock) trainerDownbeat(time);
+      gapDownbeat();
+      scheduleLayers(time);
+    }
+    // Play hard vs normal beat based on per-beat accent; a gap bar only keeps the beat indicator moving
+    const vol = barMuted ? 0 : Math.max(0, Math.min(1, volumes[beatInBar] ?? 1));
+    if (vol > 0) {
+      const accented = accents[beatInBar];
+      clickVoices[accented ? 'accent' : 'normal']!.trigger(time, (accented ? 0.9 : 0.6) * vol, beatInBar);
+    }
+    // Bar counting still anchors on beat 0; muted is true in a gap-click silent bar
+    if (beatInBar === 0) {
+      currentBar++;
+      emit('bar', { time, bar: currentBar, muted: barMuted });
     }
-    // Bar counting still anchors on beat 0
-    if (beatInBar === 0) currentBar++;
-    sub?.(beatInBar, currentBar);
-    currentBeat++;
-  }, '4n');
+    emit('beat', { time, beat: beatInBar, bar: currentBar, muted: barMuted });
+    scheduleSubPulses(time, beatInBar, currentBar, vol);
+    currentBeat = (currentBeat + 1) % beatsPerBar;
+    nextBeatTick = tick + ticksPerBeat(beatUnit);
+  }, `${Math.max(...BEAT_UNITS)}n`);
   initialized = true;
 }
 
-export async function start() {
+// Sub-pulses are placed inside the beat that was just scheduled, so a new
+// subdivision takes effect from the next beat without re-aligning the loop
+function scheduleSubPulses(time: number, beatInBar: number, bar: number, beatVolume: number) {
+  const pulses = SUBDIVISION_PULSES[subdivision];
+  if (pulses < 2) return;
+  // From our own tempo: a trainer step on this downbeat is not in the transport's value yet
+  const step = 60 / bpm / pulses;
+  for (let i = 1; i < pulses; i++) {
+    const at = time + i * step;
+    const level = levels[subdivisionLevel(i, pulses)];
+    const vol = beatVolume * level.volume;
+    if (vol > 0) subClicks.get(level.sound)!.triggerAttackRelease(CLICK_SOUNDS[level.sound].frequency, '32n', at, 0.7 * vol);
+    emit('subdivision', { time: at, beat: beatInBar, bar, pulse: i, pulses, muted: barMuted });
+  }
+}
+
+// All layers are placed on the transport's tick grid from the downbeat, so they follow
+// the same clock (and tempo changes) as the beats. Tick events fire on whole ticks;
+// the fraction is added back so e.g. 5 over 7/8 lands on the exact sample.
+function scheduleLayers(time: number) {
+  if (!layers.length) return;
+  const barStart = Math.round(Tone.Transport.getTicksAtTime(time));
+  const barTicks = beatsPerBar * ticksPerBeat(beatUnit);
+  const muted = barMuted;
+  layers.forEach((layer, li) => {
+    const play = (at: number, k: number) => {
+      const voice = layerVoices.get(layer.id);
+      if (voice && !muted && !layer.muted && layer.volume > 0) {
+        voice.triggerAttackRelease(CLICK_SOUNDS[layer.sound].frequency, '32n', at, 0.7 * layer.volume);
+      }
+      emit('layer', { time: at, layer: li, pulse: k, pulses: layer.pulses });
+    };
+    play(time, 0);
+    for (let k = 1; k < layer.pulses; k++) {
+      const ticks = barStart + (k * barTicks) / layer.pulses;
+      const whole = Math.floor(ticks);
+      const id = Tone.Transport.scheduleOnce(at => {
+        pendingLayerEvents.delete(id);
+        const secondsPerTick = 60 / (Tone.Transport.bpm.getValueAtTime(at) * Tone.Transport.PPQ);
+        play(at + (ticks - whole) * secondsPerTick, k);
+      }, `${whole}i`);
+      pendingLayerEvents.add(id);
+    }
+  });
+}
+
+function clearLayerEvents() {
+  pendingLayerEvents.forEach(id => Tone.Transport.clear(id));
+  pendingLayerEvents.clear();
+}
+
+function layerVoice(sound: ClickSound) {
+  const voice = new Tone.MembraneSynth({ octaves: 1, pitchDecay: 0.004, envelope: { attack: 0.001, decay: CLICK_SOUNDS[sound].decay, sustain: 0 } });
+  return out ? voice.connect(out) : voice;
+}
+
+function applyBpmAt(value: number, time: number) {
+  bpm = clampBpm(value);
+  Tone.Transport.bpm.setValueAtTime(transportBpm(bpm), time);
+}
+
+function trainerDownbeat(time: number) {
+  if (!trainer.enabled) return;
+  if (trainerRestart) {
+    trainerRestart = false;
+    trainerBars = 0;
+    applyBpmAt(trainer.startBpm, time);
+    return;
+  }
+  trainerBars++;
+  if (trainerBars < trainer.everyBars) return;
+  trainerBars = 0;
+  const target = clampBpm(trainer.targetBpm);
+  if (bpm === target) {
+    if (trainer.loop) applyBpmAt(trainer.startBpm, time);
+    return;
+  }
+  const next = target > bpm ? Math.min(target, bpm + trainer.step) : Math.max(target, bpm - trainer.step);
+  applyBpmAt(next, time);
+}
+
+function gapDownbeat() {
+  if (!gap.enabled) {
+    barMuted = false;
+    return;
+  }
+  if (gapRestart) {
+    gapRestart = false;
+    gapBar = 0;
+    gapMuteBars = gap.muteBars;
+  } else if (++gapBar >= gap.playBars + gapMuteBars) {
+    gapBar = 0;
+    gapMuteBars = Math.min(Math.max(gap.muteBars, gap.maxMuteBars), gapMuteBars + gap.growBy);
+  }
+  barMuted = gapBar >= gap.playBars;
+}
+
+function rebuildClickVoice(slot: ClickSlot) {
+  if (!out) return;
+  clickVoices[slot]?.dispose();
+  clickVoices[slot] = createClickVoice(clickPresets[slot], slot, out, clickBuffers[slot]);
+}
+
+function loadClickSettings() {
+  const parsed = loadJson(CLICK_STORAGE_KEY) as { presets?: Partial<Record<ClickSlot, ClickPreset>>; output?: Partial<ClickOutput> } | null;
+  if (!parsed || typeof parsed !== 'object') return;
+  clickPresets = {
+    accent: parsed.presets?.accent && CLICK_PRESETS.includes(parsed.presets.accent) ? parsed.presets.accent : 'membrane',
+    normal: parsed.presets?.normal && CLICK_PRESETS.includes(parsed.presets.normal) ? parsed.presets.normal : 'membrane',
+  };
+  clickOutput = normalizeClickOutput(parsed.output);
+}
+
+function saveClickSettings() {
+  saveJson(CLICK_STORAGE_KEY, { presets: clickPresets, output: clickOutput });
+}
+
+function normalizeClickOutput(o?: Partial<ClickOutput> | null): ClickOutput {
+  return {
+    volume: Math.max(MIN_CLICK_DB, Math.min(MAX_CLICK_DB, Number(o?.volume) || 0)),
+    pan: Math.max(-1, Math.min(1, Number(o?.pan) || 0)),
+  };
+}
+
+// Loads the stored custom click samples once; safe to call from the UI for their names
+export function restoreClickSamples() {
+  if (!samplesRestored) {
+    samplesRestored = (async () => {
+      const stored = await loadClickSamples();
+      for (const slot of Object.keys(stored) as ClickSlot[]) {
+        try {
+          clickBuffers[slot] = await decodeSampleFile(stored[slot]!.blob);
+          clickSampleNames = { ...clickSampleNames, [slot]: stored[slot]!.name };
+        } catch {
+          // A sample the browser can no longer decode: that slot falls back to the default click
+        }
+      }
+      (['accent', 'normal'] as ClickSlot[]).forEach(slot => {
+        if (clickPresets[slot] === 'custom') rebuildClickVoice(slot);
+      });
+    })().catch(() => {});
+  }
+  return samplesRestored;
+}
+
+function tempoMapDownbeat(time: number) {
+  const map = tempoMap;
+  if (!map) return;
+  map.bar++;
+  const mapBars = map.sections.reduce((sum, s) => sum + s.bars, 0);
+  if (map.loop && map.bar - map.countInBars >= mapBars) map.bar = map.countInBars;
+  const songBar = map.bar - map.countInBars;
+  if (songBar < 0) {
+    map.status = { sectionIndex: 0, label: 'Count-in', bar: map.bar + 1, bars: map.countInBars, countIn: true };
+  } else {
+    let first = 0;
+    let index = 0;
+    while (index < map.sections.length && songBar >= first + map.sections[index].bars) first += map.sections[index++].bars;
+    if (index >= map.sections.length) {
+      // The bar after the last section: stop on its bar line without a click
+      tempoMap = null;
+      tempoMapEnded = true;
+      Tone.Draw.schedule(() => {
+        stop();
+        map.onEnd?.(true);
+      }, time);
+      return;
+    }
+    if (index !== map.sectionIndex) {
+      map.sectionIndex = index;
+      applySection(map.sections[index], time);
+    }
+    const section = map.sections[index];
+    map.status = { sectionIndex: index, label: section.label, bar: songBar - first + 1, bars: section.bars, countIn: false };
+  }
+  const status = map.status;
+  Tone.Draw.schedule(() => map.onBar?.(status), time);
+}
+
+// Without a time the section applies straight away (before starting)
+function applySection(section: TempoSection, time?: number) {
+  applyTimeSignature(section.beats, section.beatUnit);
+  if (section.accents?.length) setAccents(section.accents);
+  if (time == null) {
+    bpm = clampBpm(section.bpm);
+    Tone.Transport.bpm.value = transportBpm(bpm);
+  } else {
+    applyBpmAt(section.bpm, time);
+  }
+}
+
+// Play the sections once from the top (after the count-in), then stop
+export async function playTempoMap(sections: TempoSection[], options: TempoMapOptions = {}) {
+  const playable = sections.filter(s => s.bars > 0);
+  if (!playable.length) return;
+  stop();
+  applySection(playable[0]);
+  tempoMap = {
+    sections: playable,
+    countInBars: Math.max(0, Math.floor(options.countInBars ?? 1)),
+    bar: -1,
+    sectionIndex: 0,
+    status: null,
+    loop: !!options.loop,
+    onBar: options.onBar,
+    onEnd: options.onEnd,
+  };
+  await start();
+  if (!isRunning) tempoMap = null;
+}
+
+export function getTempoMapStatus() {
+  return tempoMap?.status ? { ...tempoMap.status } : null;
+}
+
+// fromBeat: beats since the top, for a clock that continues from a song position
+export async function start(fromBeat = 0) {
   try {
     const ready = await ensureAudioStarted();
     if (!ready) return;
   } catch {}
+  await restoreClickSamples();
   init();
-  currentBeat = 0;
-  currentBar = 0;
+  const from = Math.max(0, Math.floor(fromBeat));
+  currentBeat = from % beatsPerBar;
+  // The downbeat counts its bar up; starting mid-bar, this bar is already counted
+  currentBar = Math.floor(from / beatsPerBar) + (currentBeat > 0 ? 1 : 0);
+  trainerRestart = true;
+  gapRestart = true;
+  barMuted = false;
+  tempoMapEnded = false;
   loop!.start(0);
+  // The sequencer and layers read their step from the ticks
+  nextBeatTick = from * ticksPerBeat(beatUnit);
+  Tone.Transport.ticks = nextBeatTick;
   Tone.Transport.start();
   isRunning = true;
+  emit('start', { time: Tone.now() });
 }
 
 export function stop() {
-  if (!initialized) return;
+  if (!initialized) {
+    tempoMap = null;
+    return;
+  }
   loop!.stop();
   Tone.Transport.stop();
+  clearLayerEvents();
+  const wasRunning = isRunning;
   isRunning = false;
+  if (wasRunning) emit('stop', { time: Tone.now() });
+  const map = tempoMap;
+  tempoMap = null;
+  map?.onEnd?.(false);
 }
 
 export async function toggle() {
@@ -70,14 +554,63 @@ export async function toggle() {
 }
 
 export function setBpm(next: number) {
-  bpm = Math.max(30, Math.min(300, Math.round(next)));
-  Tone.Transport.bpm.rampTo(bpm, 0.05);
+  bpm = clampBpm(next);
+  Tone.Transport.bpm.rampTo(transportBpm(bpm), 0.05);
+}
+
+// While on, the trainer stands still and followExternalTempo sets the tempo
+export function setExternalClock(on: boolean) {
+  externalClock = on;
+}
+
+// Both tempos in quarter notes, as MIDI clock counts them. The transport runs at the
+// exact (unrounded) rate; `display` is the steadier BPM to show.
+export function followExternalTempo(rate: number, display: number, time: number) {
+  bpm = clampBpm((display * beatUnit) / 4);
+  Tone.Transport.bpm.setValueAtTime(Math.max(transportBpm(MIN_BPM), Math.min(transportBpm(MAX_BPM), rate)), time);
 }
 
 export function setBeatsPerBar(next: number) {
-  beatsPerBar = Math.max(1, Math.min(12, Math.floor(next)));
-  Tone.Transport.timeSignature = beatsPerBar;
-// Resize accents, preserving existing values
+  setTimeSignature(next, beatUnit);
+}
+
+// A new signature keeps per-beat settings that still fit and picks the first grouping preset.
+// The BPM stays in beats, so a new unit changes the Transport's quarter-note tempo.
+export function setTimeSignature(beats: number, unit: BeatUnit) {
+  const quarters = transportBpm(bpm);
+  applyTimeSignature(beats, unit);
+  // An external clock keeps its quarter-note tempo; only the BPM shown in beats changes
+  if (externalClock) bpm = clampBpm((quarters * beatUnit) / 4);
+  else Tone.Transport.bpm.value = transportBpm(bpm);
+}
+
+// Leaves the Transport's tempo to the caller, e.g. a tempo map section that sets it on its bar line
+function applyTimeSignature(beats: number, unit: BeatUnit) {
+  beatsPerBar = Math.max(1, Math.min(MAX_BEATS_PER_BAR, Math.floor(beats)));
+  if (BEAT_UNITS.includes(unit)) beatUnit = unit;
+  Tone.Transport.timeSignature = [beatsPerBar, beatUnit];
+  resizeBeats();
+  setGrouping(groupingPresets(beatsPerBar, beatUnit)[0] ?? null);
+}
+
+// Accent every group start, e.g. beats 1, 3 and 5 of 7/8 as 2+2+3. Ignored unless the groups fill the bar.
+export function setGrouping(groups: number[] | null) {
+  if (!groups || groups.reduce((a, b) => a + b, 0) !== beatsPerBar || groups.some(g => g < 1)) {
+    grouping = null;
+    return;
+  }
+  grouping = [...groups];
+  const next = new Array(beatsPerBar).fill(false);
+  let at = 0;
+  grouping.forEach(g => {
+    next[at] = true;
+    at += g;
+  });
+  accents = next;
+}
+
+function resizeBeats() {
+  // Resize accents, preserving existing values
   const newAccents = new Array(beatsPerBar).fill(false);
   for (let i = 0; i < Math.min(accents.length, beatsPerBar); i++) newAccents[i] = accents[i];
   accents = newAccents;
@@ -87,12 +620,26 @@ export function setBeatsPerBar(next: number) {
   volumes = newVolumes;
 }
 
-export function onTick(fn: Subscriber | null) {
-  sub = fn;
-}
-
 export function getState() {
-  return { bpm, beatsPerBar, isRunning, accents: [...accents], volumes: [...volumes] };
+  return {
+    bpm,
+    beatsPerBar,
+    beatUnit,
+    grouping: grouping ? [...grouping] : null,
+    isRunning,
+    accents: [...accents],
+    volumes: [...volumes],
+    subdivision,
+    levels: { ...levels },
+    trainer: { ...trainer },
+    trainerStatus: trainerStatus(),
+    gap: { ...gap },
+    layers: layers.map(l => ({ ...l })),
+    clickPresets: { ...clickPresets },
+    clickSamples: { ...clickSampleNames },
+    clickOutput: { ...clickOutput },
+    gapStatus: gapStatus(),
+  };
 }
 
 export function setAccentForBeat(beatIndex: number, v: boolean) {
@@ -122,3 +669,150 @@ export function setVolumes(values: number[]) {
   for (let i = 0; i < Math.min(values.length, beatsPerBar); i++) next[i] = Math.max(0, Math.min(1, Number(values[i])));
   volumes = next;
 }
+
+export function setSubdivision(next: Subdivision) {
+  if (next in SUBDIVISION_PULSES) subdivision = next;
+}
+
+export function setLevel(level: SubdivisionLevel, patch: Partial<LevelSettings>) {
+  const cur = levels[level];
+  levels = {
+    ...levels,
+    [level]: {
+      volume: patch.volume != null ? Math.max(0, Math.min(1, Number(patch.volume))) : cur.volume,
+      sound: patch.sound && patch.sound in CLICK_SOUNDS ? patch.sound : cur.sound,
+    },
+  };
+}
+
+// Changing the trainer restarts it from startBpm on the next bar line
+export function setTrainer(patch: Partial<TrainerSettings>) {
+  const next = { ...trainer, ...patch };
+  trainer = {
+    enabled: !!next.enabled,
+    startBpm: clampBpm(next.startBpm),
+    targetBpm: clampBpm(next.targetBpm),
+    step: Math.max(1, Math.min(50, Math.round(Number(next.step) || 1))),
+    everyBars: Math.max(1, Math.min(64, Math.round(Number(next.everyBars) || 1))),
+    loop: !!next.loop,
+  };
+  trainerRestart = true;
+}
+
+// Bars until the next tempo change and until the target is reached (0 once there)
+function trainerStatus() {
+  if (!trainer.enabled || !isRunning || trainerRestart) return null;
+  const target = clampBpm(trainer.targetBpm);
+  const stepsLeft = Math.ceil(Math.abs(target - bpm) / trainer.step);
+  const barsToNext = trainer.everyBars - trainerBars;
+  return {
+    barsToNext: stepsLeft > 0 || trainer.loop ? barsToNext : null,
+    barsToTarget: stepsLeft > 0 ? barsToNext + (stepsLeft - 1) * trainer.everyBars : 0,
+  };
+}
+
+// Changing the gap click starts a new cycle (with clicks) on the next bar line
+export function setGap(patch: Partial<GapSettings>) {
+  const next = { ...gap, ...patch };
+  const bars = (v: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(Number(v) || 0)));
+  gap = {
+    enabled: !!next.enabled,
+    playBars: bars(next.playBars, 1, 16),
+    muteBars: bars(next.muteBars, 1, 16),
+    growBy: bars(next.growBy, 0, 4),
+    maxMuteBars: bars(next.maxMuteBars, 1, 32),
+  };
+  gapRestart = true;
+  if (!gap.enabled) barMuted = false;
+}
+
+// Whether the current bar is silent, how many bars of this phase are left (including this one)
+// and how long the silence of the current cycle is
+function gapStatus() {
+  if (!gap.enabled || !isRunning || gapRestart) return null;
+  return {
+    muted: barMuted,
+    barsLeft: (barMuted ? gap.playBars + gapMuteBars : gap.playBars) - gapBar,
+    muteBars: gapMuteBars,
+  };
+}
+
+function clampPulses(n: number) {
+  return Math.max(1, Math.min(MAX_LAYER_PULSES, Math.round(Number(n) || 1)));
+}
+
+// Layer changes are heard from the next bar line
+export function addLayer(pulses: number, sound: ClickSound = 'beep') {
+  if (layers.length >= MAX_LAYERS) return null;
+  const layer: PolyLayer = {
+    id: `layer-${++layerCount}`,
+    pulses: clampPulses(pulses),
+    sound: sound in CLICK_SOUNDS ? sound : 'beep',
+    volume: 0.8,
+    muted: false,
+  };
+  layerVoices.set(layer.id, layerVoice(layer.sound));
+  layers = [...layers, layer];
+  return layer.id;
+}
+
+export function removeLayer(index: number) {
+  const layer = layers[index];
+  if (!layer) return;
+  layerVoices.get(layer.id)?.dispose();
+  layerVoices.delete(layer.id);
+  layers = layers.filter((_, i) => i !== index);
+}
+
+export function setLayer(index: number, patch: Partial<Omit<PolyLayer, 'id'>>) {
+  const cur = layers[index];
+  if (!cur) return;
+  const next: PolyLayer = {
+    id: cur.id,
+    pulses: patch.pulses != null ? clampPulses(patch.pulses) : cur.pulses,
+    sound: patch.sound && patch.sound in CLICK_SOUNDS ? patch.sound : cur.sound,
+    volume: patch.volume != null ? Math.max(0, Math.min(1, Number(patch.volume))) : cur.volume,
+    muted: patch.muted != null ? !!patch.muted : cur.muted,
+  };
+  if (next.sound !== cur.sound) layerVoices.get(cur.id)?.set({ envelope: { decay: CLICK_SOUNDS[next.sound].decay } });
+  layers = layers.map((l, i) => (i === index ? next : l));
+}
+
+// A ratio like 3:2 as one layer of 3 against a bar of 2 beats (in the current beat unit)
+export function setPolyrhythm(pulses: number, beats: number) {
+  setTimeSignature(beats, beatUnit);
+  while (layers.length) removeLayer(layers.length - 1);
+  addLayer(pulses);
+}
+
+export function setClickPreset(slot: ClickSlot, preset: ClickPreset) {
+  if (!CLICK_PRESETS.includes(preset)) return;
+  clickPresets = { ...clickPresets, [slot]: preset };
+  saveClickSettings();
+  rebuildClickVoice(slot);
+}
+
+// Stores the file and switches the slot to it; throws if the file cannot be decoded
+export async function setClickSample(slot: ClickSlot, file: File) {
+  const { sample, buffer } = await saveClickSample(slot, file);
+  clickBuffers[slot] = buffer;
+  clickSampleNames = { ...clickSampleNames, [slot]: sample.name };
+  setClickPreset(slot, 'custom');
+}
+
+export async function clearClickSample(slot: ClickSlot) {
+  await deleteClickSample(slot);
+  delete clickBuffers[slot];
+  clickSampleNames = { ...clickSampleNames };
+  delete clickSampleNames[slot];
+  if (clickPresets[slot] === 'custom') rebuildClickVoice(slot);
+}
+
+export function setClickOutput(patch: Partial<ClickOutput>) {
+  clickOutput = normalizeClickOutput({ ...clickOutput, ...patch });
+  saveClickSettings();
+  if (strip) {
+    strip.volume.rampTo(clickOutput.volume, 0.05);
+    strip.pan.rampTo(clickOutput.pan, 0.05);
+  }
+}
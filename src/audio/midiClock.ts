@@ -0,0 +1,251 @@
+import * as Tone from 'tone';
+import { followExternalTempo, getState, setExternalClock, start, stop } from './metronome';
+import { on } from './transportEvents';
+import { loadJson, saveJson } from '../lib/storage';
+import { initMidiClockListenerForInput, MIDI_CLOCK, MIDI_START, MIDI_STOP, MidiClockMessage, sendMidi } from '../midi/midi';
+
+// MIDI clock sync (24 clocks per quarter note): the metronome follows the clock of one
+// input, or, while on its own clock, sends it to one output for a DAW or
+// hardware sequencer to lock to.
+export type MidiClockSettings = {
+  inputId: string | null; // follow this input; null = internal clock
+  outputId: string | null; // send clock here while on the internal clock
+};
+
+export type MidiClockStatus = {
+  receiving: boolean; // clock ticks are arriving on the input
+  bpm: number | null; // smoothed tempo of the incoming clock, in quarter notes
+  error: string | null;
+};
+
+export const CLOCKS_PER_QUARTER = 24;
+
+const STORAGE_KEY = 'midi_clock_v1';
+// The tempo is measured over the last two quarters of ticks, then eased per quarter,
+// so one late tick cannot move it
+const WINDOW_TICKS = CLOCKS_PER_QUARTER * 2;
+const SMOOTHING = 0.3;
+// The shown BPM only moves once the estimate is this far from it
+const DISPLAY_HYSTERESIS = 0.6;
+// No tick for this long means the clock stopped or was unplugged (a tick is 83 ms at 30 BPM)
+const CLOCK_TIMEOUT_MS = 500;
+// Phase lock: the share of the quarter's error made up over the next quarter, and the largest tempo nudge
+const PHASE_GAIN = 0.5;
+const MAX_NUDGE = 0.08;
+
+let settings: MidiClockSettings = loadSettings();
+let status: MidiClockStatus = { receiving: false, bpm: null, error: null };
+const listeners = new Set<() => void>();
+let input: { dispose(): void } | null = null;
+// Bumped per attach, so a slow attach for a replaced input is dropped
+let attachRun = 0;
+let restored = false;
+
+const tickTimes: number[] = [];
+let estimate: number | null = null;
+let timeout: ReturnType<typeof setTimeout> | null = null;
+// Ticks since the last tempo update while the song is not playing
+let idleTicks = 0;
+// Song position in clocks; it only advances between Start/Continue and Stop
+let position = 0;
+let song: 'stopped' | 'starting' | 'playing' = 'stopped';
+// Set once the clock has started the metronome; only then is it kept on the clock's quarters
+let following = false;
+
+let sendEvent: number | null = null;
+
+function loadSettings(): MidiClockSettings {
+  const parsed = loadJson(STORAGE_KEY) as Partial<MidiClockSettings> | null;
+  return {
+    inputId: typeof parsed?.inputId === 'string' && parsed.inputId ? parsed.inputId : null,
+    outputId: typeof parsed?.outputId === 'string' && parsed.outputId ? parsed.outputId : null,
+  };
+}
+
+function save() {
+  saveJson(STORAGE_KEY, settings);
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+function setStatus(patch: Partial<MidiClockStatus>) {
+  status = { ...status, ...patch };
+  notify();
+}
+
+function resetTempo() {
+  tickTimes.length = 0;
+  estimate = null;
+  idleTicks = 0;
+  if (timeout) clearTimeout(timeout);
+  timeout = null;
+}
+
+// Mean tick length over the window, as BPM
+function windowBpm() {
+  if (tickTimes.length <= CLOCKS_PER_QUARTER) return null;
+  const span = tickTimes[tickTimes.length - 1] - tickTimes[0];
+  return span > 0 ? (60000 * (tickTimes.length - 1)) / (CLOCKS_PER_QUARTER * span) : null;
+}
+
+// On each quarter of the incoming clock: update the tempo and, when the clock started
+// the metronome, nudge it so the Transport's quarters stay on the clock's
+function clockQuarter(songQuarter: number | null, time: number) {
+  const measured = windowBpm();
+  if (measured == null) return;
+  estimate = estimate == null ? measured : estimate + (measured - estimate) * SMOOTHING;
+  const shown = status.bpm == null || Math.abs(estimate - status.bpm) >= DISPLAY_HYSTERESIS ? Math.round(estimate) : status.bpm;
+  let rate = estimate;
+  if (songQuarter != null && following && getState().isRunning) {
+    // The Transport started at the song position's tick, so both count from the top of the song
+    const ppq = Tone.Transport.PPQ;
+    const behind = (songQuarter * ppq - Tone.Transport.getTicksAtTime(time)) / ppq;
+    rate *= 1 + Math.max(-MAX_NUDGE, Math.min(MAX_NUDGE, behind * PHASE_GAIN));
+  }
+  followExternalTempo(rate, shown, time);
+  if (shown !== status.bpm) setStatus({ bpm: shown });
+}
+
+function handleClock(raw: WebMidi.MIDIMessageEvent) {
+  const ms = raw.timeStamp || performance.now();
+  // When the tick arrived, in the scheduler's audio time (which runs lookAhead ahead)
+  const time = Tone.now() - Math.max(0, performance.now() - ms) / 1000;
+  if (tickTimes.length && ms - tickTimes[tickTimes.length - 1] > CLOCK_TIMEOUT_MS) resetTempo();
+  tickTimes.push(ms);
+  if (tickTimes.length > WINDOW_TICKS + 1) tickTimes.shift();
+  if (timeout) clearTimeout(timeout);
+  timeout = setTimeout(() => {
+    resetTempo();
+    setStatus({ receiving: false });
+  }, CLOCK_TIMEOUT_MS);
+  if (!status.receiving) setStatus({ receiving: true });
+
+  // After Start/Continue the metronome starts on the first tick that is one of its beats (an eighth in 6/8)
+  if (song === 'starting') {
+    const clocksPerBeat = (CLOCKS_PER_QUARTER * 4) / getState().beatUnit;
+    if (position % clocksPerBeat === 0) {
+      song = 'playing';
+      void start(position / clocksPerBeat).then(() => {
+        if (song === 'playing' && getState().isRunning) following = true;
+      });
+    }
+  }
+  if (song === 'playing') {
+    if (position % CLOCKS_PER_QUARTER === 0) clockQuarter(position / CLOCKS_PER_QUARTER, time);
+  } else if (++idleTicks % CLOCKS_PER_QUARTER === 0) {
+    clockQuarter(null, time);
+  }
+  if (song !== 'stopped') position++;
+}
+
+function handleMessage(message: MidiClockMessage, raw: WebMidi.MIDIMessageEvent) {
+  switch (message.type) {
+    case 'clock':
+      handleClock(raw);
+      break;
+    case 'start':
+      position = 0;
+      song = 'starting';
+      following = false;
+      stop();
+      break;
+    case 'continue':
+      song = 'starting';
+      break;
+    case 'stop':
+      if (song === 'playing' && following) stop();
+      song = 'stopped';
+      following = false;
+      break;
+    case 'position':
+      // Only moves the song while stopped, as the spec asks
+      if (song === 'stopped') position = message.sixteenths * (CLOCKS_PER_QUARTER / 4);
+      break;
+  }
+}
+
+async function attachInput() {
+  const run = ++attachRun;
+  input?.dispose();
+  input = null;
+  resetTempo();
+  song = 'stopped';
+  following = false;
+  position = 0;
+  setStatus({ receiving: false, bpm: null, error: null });
+  if (!settings.inputId) return;
+  try {
+    const next = await initMidiClockListenerForInput(settings.inputId, handleMessage);
+    if (run !== attachRun) next.dispose();
+    else input = next;
+  } catch (e) {
+    if (run === attachRun) setStatus({ error: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+// Audio time to the performance.now() time Web MIDI schedules in
+function sendAt(byte: number, time: number) {
+  if (!settings.outputId || settings.inputId) return;
+  const ms = performance.now() + (time - Tone.getContext().currentTime) * 1000;
+  void sendMidi(settings.outputId, [byte], ms).catch(() => {});
+}
+
+// A repeat on the transport follows every tempo change; the transport runs only with the metronome
+function syncSending() {
+  const sending = !!settings.outputId && !settings.inputId;
+  if (sending && sendEvent == null) {
+    sendEvent = Tone.Transport.scheduleRepeat(time => sendAt(MIDI_CLOCK, time), `${Tone.Transport.PPQ / CLOCKS_PER_QUARTER}i`, 0);
+  } else if (!sending && sendEvent != null) {
+    Tone.Transport.clear(sendEvent);
+    sendEvent = null;
+  }
+}
+
+// Start goes out before the first clock: the bus hears about the start before the transport ticks
+on('start', ({ time }) => {
+  syncSending();
+  sendAt(MIDI_START, time);
+});
+
+on('stop', ({ time }) => {
+  sendAt(MIDI_STOP, time);
+  // Stopped by hand: leave the song to the clock's next Start/Continue
+  following = false;
+});
+
+// Applies the stored settings once; the UI calls this when it mounts
+export function restoreMidiClock() {
+  if (restored) return;
+  restored = true;
+  setExternalClock(!!settings.inputId);
+  if (settings.inputId) void attachInput();
+}
+
+export function getMidiClockState() {
+  return { settings: { ...settings }, status: { ...status } };
+}
+
+export function setClockInput(inputId: string | null) {
+  settings = { ...settings, inputId: inputId || null };
+  save();
+  setExternalClock(!!settings.inputId);
+  if (sendEvent != null || getState().isRunning) syncSending();
+  void attachInput();
+  notify();
+}
+
+export function setClockOutput(outputId: string | null) {
+  settings = { ...settings, outputId: outputId || null };
+  save();
+  if (sendEvent != null || getState().isRunning) syncSending();
+  notify();
+}
+
+export function subscribeMidiClock(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
@@ -0,0 +1,182 @@
+import * as Tone from 'tone';
+import type { DrumPad } from './sampler';
+import { getOutputBus } from './outputBus';
+import { loadJson, saveJson } from '../lib/storage';
+
+// Channel strip per pad; volumes are in dB like a hardware desk
+export type ChannelStrip = {
+  volume: number; // dB
+  pan: number; // -1 (L) .. 1 (R)
+  mute: boolean;
+  solo: boolean;
+};
+
+export type MixSettings = {
+  masterVolume: number; // dB, before the limiter
+  channels: Partial<Record<DrumPad, ChannelStrip>>;
+};
+
+export type MeterTarget = DrumPad | 'master';
+
+export type Mixer = {
+  input: (pad: DrumPad) => Tone.InputNode;
+  apply: (settings: MixSettings) => void;
+  getPeak: (target: MeterTarget) => number; // linear 0..1 (can exceed 1 pre-limiter)
+  dispose: () => void;
+};
+
+export const MIN_VOLUME_DB = -60;
+export const MAX_VOLUME_DB = 6;
+const LIMITER_THRESHOLD_DB = -1;
+const METER_SIZE = 256;
+const MIX_STORAGE_KEY = 'drum_mix_v1';
+
+export const DEFAULT_CHANNEL: ChannelStrip = { volume: 0, pan: 0, mute: false, solo: false };
+
+function defaultMix(): MixSettings {
+  return { masterVolume: 0, channels: {} };
+}
+
+function clampVolume(db: number) {
+  return Math.max(MIN_VOLUME_DB, Math.min(MAX_VOLUME_DB, Number(db) || 0));
+}
+
+function normalizeStrip(strip?: Partial<ChannelStrip> | null): ChannelStrip {
+  return {
+    volume: clampVolume(strip?.volume ?? DEFAULT_CHANNEL.volume),
+    pan: Math.max(-1, Math.min(1, Number(strip?.pan) || 0)),
+    mute: !!strip?.mute,
+    solo: !!strip?.solo,
+  };
+}
+
+function peakOf(analyser: Tone.Analyser) {
+  const values = analyser.getValue() as Float32Array;
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) {
+    const v = Math.abs(values[i]);
+    if (v > peak) peak = v;
+  }
+  return peak;
+}
+
+// Pad strips -> master volume -> limiter -> destination.
+// Strips are created on first use so the mixer does not need the pad list.
+export function createMixer(settings: MixSettings, destination: Tone.InputNode = Tone.getDestination()): Mixer {
+  let current = settings;
+  const masterVolume = new Tone.Volume(clampVolume(settings.masterVolume));
+  const limiter = new Tone.Limiter(LIMITER_THRESHOLD_DB);
+  const masterMeter = new Tone.Analyser('waveform', METER_SIZE);
+  masterVolume.chain(limiter, destination);
+  limiter.connect(masterMeter);
+
+  const strips = new Map<DrumPad, { panVol: Tone.PanVol; meter: Tone.Analyser }>();
+
+  function anySolo() {
+    return Object.values(current.channels).some(c => c?.solo);
+  }
+
+  function applyStrip(pad: DrumPad, soloActive: boolean) {
+    const strip = strips.get(pad);
+    if (!strip) return;
+    const s = normalizeStrip(current.channels[pad]);
+    strip.panVol.volume.value = s.volume;
+    strip.panVol.pan.value = s.pan;
+    // Soloing any strip silences every strip that is not soloed
+    strip.panVol.mute = s.mute || (soloActive && !s.solo);
+  }
+
+  function ensureStrip(pad: DrumPad) {
+    let strip = strips.get(pad);
+    if (!strip) {
+      const panVol = new Tone.PanVol().connect(masterVolume);
+      const meter = new Tone.Analyser('waveform', METER_SIZE);
+      panVol.connect(meter);
+      strip = { panVol, meter };
+      strips.set(pad, strip);
+      applyStrip(pad, anySolo());
+    }
+    return strip;
+  }
+
+  return {
+    input(pad) {
+      return ensureStrip(pad).panVol;
+    },
+    apply(next) {
+      current = next;
+      masterVolume.volume.value = clampVolume(next.masterVolume);
+      const soloActive = anySolo();
+      strips.forEach((_, pad) => applyStrip(pad, soloActive));
+    },
+    getPeak(target) {
+      if (target === 'master') return peakOf(masterMeter);
+      const strip = strips.get(target);
+      return strip ? peakOf(strip.meter) : 0;
+    },
+    dispose() {
+      strips.forEach(({ panVol, meter }) => {
+        panVol.dispose();
+        meter.dispose();
+      });
+      strips.clear();
+      masterVolume.dispose();
+      limiter.dispose();
+      masterMeter.dispose();
+    },
+  };
+}
+
+// Live mix shared by the drum engines and the mixer panel, persisted next to the bindings
+function readStoredMix(): MixSettings {
+  const parsed = loadJson(MIX_STORAGE_KEY) as Partial<MixSettings> | null;
+  if (!parsed || typeof parsed !== 'object') return defaultMix();
+  const channels: MixSettings['channels'] = {};
+  Object.entries(parsed.channels ?? {}).forEach(([pad, strip]) => {
+    channels[pad as DrumPad] = normalizeStrip(strip);
+  });
+  return { masterVolume: clampVolume(parsed.masterVolume ?? 0), channels };
+}
+
+let mix: MixSettings = readStoredMix();
+let liveMixer: Mixer | null = null;
+
+function persistMix() {
+  saveJson(MIX_STORAGE_KEY, mix);
+}
+
+function commit(next: MixSettings) {
+  mix = next;
+  liveMixer?.apply(mix);
+  persistMix();
+}
+
+export function getMixer() {
+  if (!liveMixer) liveMixer = createMixer(mix, getOutputBus('drums'));
+  return liveMixer;
+}
+
+export function getMixSettings(): MixSettings {
+  return { masterVolume: mix.masterVolume, channels: { ...mix.channels } };
+}
+
+export function getChannel(pad: DrumPad): ChannelStrip {
+  return normalizeStrip(mix.channels[pad]);
+}
+
+export function updateChannel(pad: DrumPad, patch: Partial<ChannelStrip>) {
+  const strip = normalizeStrip({ ...getChannel(pad), ...patch });
+  commit({ ...mix, channels: { ...mix.channels, [pad]: strip } });
+}
+
+export function setMasterVolume(db: number) {
+  commit({ ...mix, masterVolume: clampVolume(db) });
+}
+
+export function resetMix() {
+  commit(defaultMix());
+}
+
+export function getPeak(target: MeterTarget) {
+  return liveMixer ? liveMixer.getPeak(target) : 0;
+}
@@ -0,0 +1,16 @@
+import * as Tone from 'tone';
+
+// Last stop before the speakers. Drums (after the mixer's limiter) and the
+// metronome click each have a bus, so the recorder can tap either or both.
+export type OutputBusName = 'drums' | 'click';
+
+const buses = new Map<OutputBusName, Tone.Gain>();
+
+export function getOutputBus(name: OutputBusName) {
+  let bus = buses.get(name);
+  if (!bus) {
+    bus = new Tone.Gain(1).toDestination();
+    buses.set(name, bus);
+  }
+  return bus;
+}
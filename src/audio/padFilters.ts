@@ -0,0 +1,55 @@
+import * as Tone from 'tone';
+import type { DrumPad } from './sampler';
+import { MAX_FILTER_HZ, MIN_FILTER_HZ } from './padSettings';
+
+// Per-pad high-pass -> low-pass between a drum voice and its output
+export type PadFilters = {
+  input: (pad: DrumPad) => Tone.InputNode;
+  shape: (pad: DrumPad, opts: { lowpass?: number; highpass?: number; velocityBrightness?: number; velocity: number; time: number }) => void;
+  dispose: () => void;
+};
+
+// At full velocity-to-brightness a silent hit would sit this many octaves below the cutoff
+const BRIGHTNESS_OCTAVES = 5;
+
+// Soft hits close the low-pass further, like a real drum played gently
+export function brightnessCutoff(lowpass: number, amount: number, velocity: number) {
+  const softness = 1 - Math.max(0, Math.min(1, velocity / 127));
+  const cutoff = lowpass * Math.pow(2, -amount * softness * BRIGHTNESS_OCTAVES);
+  return Math.max(MIN_FILTER_HZ, Math.min(MAX_FILTER_HZ, cutoff));
+}
+
+export function createPadFilters(output: (pad: DrumPad) => Tone.InputNode): PadFilters {
+  const chains = new Map<DrumPad, { highpass: Tone.Filter; lowpass: Tone.Filter }>();
+
+  function ensureChain(pad: DrumPad) {
+    let chain = chains.get(pad);
+    if (!chain) {
+      const highpass = new Tone.Filter(MIN_FILTER_HZ, 'highpass');
+      const lowpass = new Tone.Filter(MAX_FILTER_HZ, 'lowpass');
+      highpass.chain(lowpass, output(pad));
+      chain = { highpass, lowpass };
+      chains.set(pad, chain);
+    }
+    return chain;
+  }
+
+  return {
+    input(pad) {
+      return ensureChain(pad).highpass;
+    },
+    // Cutoffs are set per hit, so overlapping hits on one pad share the latest values
+    shape(pad, { lowpass = MAX_FILTER_HZ, highpass = MIN_FILTER_HZ, velocityBrightness = 0, velocity, time }) {
+      const chain = ensureChain(pad);
+      chain.highpass.frequency.setValueAtTime(highpass, time);
+      chain.lowpass.frequency.setValueAtTime(brightnessCutoff(lowpass, velocityBrightness, velocity), time);
+    },
+    dispose() {
+      chains.forEach(({ highpass, lowpass }) => {
+        highpass.dispose();
+        lowpass.dispose();
+      });
+      chains.clear();
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import type { DrumPad } from './sampler';
+import { loadJson, saveJson } from '../lib/storage';
+
+// Per-pad behaviour that can come from the app, the kit manifest, or the user,
+// in increasing order of precedence. User edits are stored per kit.
+export type PadSettings = {
+  chokeGroup: number | null; // pads sharing a group cut each other (a.k.a. mute group)
+  selfChoke: boolean; // monophonic: a new hit cuts this pad's previous one
+  chokeFade: number; // seconds a choked pad takes to fade out
+  aftertouchChoke: number | null; // poly aftertouch pressure (1..127) that chokes the pad; null = off
+  tune: number; // semitones
+  fine: number; // cents
+  decay: number | null; // seconds until the release starts; null = the sound's natural length
+  release: number; // seconds to fade once the decay time is up
+  lowpass: number; // Hz; MAX_FILTER_HZ = open
+  highpass: number; // Hz; MIN_FILTER_HZ = open
+  velocityBrightness: number; // 0..1: how much darker soft hits get
+};
+
+export type PadSettingsPatch = Partial<PadSettings>;
+
+export const CHOKE_GROUP_COUNT = 8;
+export const MIN_CHOKE_FADE = 0.005;
+export const MAX_CHOKE_FADE = 2;
+// Pressure that counts as a cymbal grab when a pad enables aftertouch choke
+export const DEFAULT_AFTERTOUCH_CHOKE = 64;
+export const MAX_TUNE = 24;
+export const MAX_FINE = 100;
+export const MIN_DECAY = 0.02;
+export const MAX_DECAY = 4;
+export const MIN_RELEASE = 0.005;
+export const MAX_RELEASE = 2;
+export const MIN_FILTER_HZ = 20;
+export const MAX_FILTER_HZ = 20000;
+
+// Fields each section of the pad editor owns, so they can be reset on their own
+export const CHOKE_SETTING_KEYS = ['chokeGroup', 'selfChoke', 'chokeFade', 'aftertouchChoke'] as const;
+export const SOUND_SETTING_KEYS = ['tune', 'fine', 'decay', 'release', 'lowpass', 'highpass', 'velocityBrightness'] as const;
+
+export const DEFAULT_PAD_SETTINGS: PadSettings = {
+  chokeGroup: null,
+  selfChoke: false,
+  chokeFade: 0.1,
+  aftertouchChoke: null,
+  tune: 0,
+  fine: 0,
+  decay: null,
+  release: 0.1,
+  lowpass: MAX_FILTER_HZ,
+  highpass: MIN_FILTER_HZ,
+  velocityBrightness: 0,
+};
+
+const STORAGE_KEY = 'drum_pad_settings_v1';
+
+type StoredSettings = Record<string, Partial<Record<DrumPad, PadSettingsPatch>>>; // kit id -> pad -> overrides
+
+// Keep only well-formed fields so stale or hand-edited data cannot break playback
+export function sanitizePadSettings(patch?: PadSettingsPatch | null): PadSettingsPatch {
+  const out: PadSettingsPatch = {};
+  if (!patch || typeof patch !== 'object') return out;
+  if ('chokeGroup' in patch) {
+    const g = patch.chokeGroup == null ? null : Math.floor(Number(patch.chokeGroup));
+    out.chokeGroup = g != null && g >= 1 && g <= CHOKE_GROUP_COUNT ? g : null;
+  }
+  if ('selfChoke' in patch) out.selfChoke = !!patch.selfChoke;
+  if ('chokeFade' in patch && Number.isFinite(Number(patch.chokeFade))) {
+    out.chokeFade = Math.max(MIN_CHOKE_FADE, Math.min(MAX_CHOKE_FADE, Number(patch.chokeFade)));
+  }
+  if ('aftertouchChoke' in patch) {
+    const t = patch.aftertouchChoke == null ? null : Math.round(Number(patch.aftertouchChoke));
+    out.aftertouchChoke = t != null && Number.isFinite(t) ? Math.max(1, Math.min(127, t)) : null;
+  }
+  const num = (key: keyof PadSettings, min: number, max: number) => {
+    if (!(key in patch)) return undefined;
+    const n = Number(patch[key]);
+    return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : undefined;
+  };
+  const tune = num('tune', -MAX_TUNE, MAX_TUNE);
+  if (tune != null) out.tune = tune;
+  const fine = num('fine', -MAX_FINE, MAX_FINE);
+  if (fine != null) out.fine = fine;
+  if ('decay' in patch) out.decay = patch.decay == null ? null : num('decay', MIN_DECAY, MAX_DECAY) ?? null;
+  const release = num('release', MIN_RELEASE, MAX_RELEASE);
+  if (release != null) out.release = release;
+  const lowpass = num('lowpass', MIN_FILTER_HZ, MAX_FILTER_HZ);
+  if (lowpass != null) out.lowpass = lowpass;
+  const highpass = num('highpass', MIN_FILTER_HZ, MAX_FILTER_HZ);
+  if (highpass != null) out.highpass = highpass;
+  const brightness = num('velocityBrightness', 0, 1);
+  if (brightness != null) out.velocityBrightness = brightness;
+  return out;
+}
+
+function readStored(): StoredSettings {
+  const parsed = loadJson(STORAGE_KEY);
+  return parsed && typeof parsed === 'object' ? (parsed as StoredSettings) : {};
+}
+
+let stored: StoredSettings = readStored();
+
+function persist() {
+  saveJson(STORAGE_KEY, stored);
+}
+
+export function getPadOverrides(kitId: string, pad: DrumPad): PadSettingsPatch {
+  return sanitizePadSettings(stored[kitId]?.[pad]);
+}
+
+export function resolvePadSettings(...layers: (PadSettingsPatch | undefined)[]): PadSettings {
+  return layers.reduce<PadSettings>((acc, layer) => ({ ...acc, ...sanitizePadSettings(layer) }), { ...DEFAULT_PAD_SETTINGS });
+}
+
+export function updatePadOverrides(kitId: string, pad: DrumPad, patch: PadSettingsPatch) {
+  const kitSettings = { ...(stored[kitId] ?? {}) };
+  kitSettings[pad] = { ...getPadOverrides(kitId, pad), ...sanitizePadSettings(patch) };
+  stored = { ...stored, [kitId]: kitSettings };
+  persist();
+}
+
+// Drop all of a pad's overrides, or just the given fields
+export function clearPadOverrides(kitId: string, pad: DrumPad, keys?: readonly (keyof PadSettings)[]) {
+  const kitSettings = { ...(stored[kitId] ?? {}) };
+  if (keys) {
+    const rest = { ...getPadOverrides(kitId, pad) };
+    keys.forEach(k => delete rest[k]);
+    kitSettings[pad] = rest;
+  } else {
+    delete kitSettings[pad];
+  }
+  stored = { ...stored, [kitId]: kitSettings };
+  persist();
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DrumPad } from './drumPads';
+import { renderHits, RenderHit } from './render';
+
+// No Web Audio in Node: Tone.Offline and the kit player are stubbed, so these
+// tests cover what renderHits asks for and plays, not the audio that comes out.
+// The WAV bytes are covered by wav.test.ts.
+const offline = vi.hoisted(() => ({
+  render: null as { duration: number; channels: number; sampleRate: number } | null,
+  played: [] as { pad: string; velocity: number; time?: number; openness?: number }[],
+}));
+
+vi.mock('tone', () => ({
+  Offline: async (callback: () => void, duration: number, channels: number, sampleRate: number) => {
+    offline.render = { duration, channels, sampleRate };
+    callback();
+    return { get: () => ({ numberOfChannels: channels, sampleRate, duration }) };
+  },
+}));
+
+vi.mock('./mixer', () => ({
+  createMixer: () => ({ input: () => null, dispose: () => {} }),
+  getMixSettings: () => ({}),
+}));
+
+vi.mock('../engine/ToneSamplerEngine', () => ({
+  ToneSamplerEngine: class {
+    init() {}
+    dispose() {}
+  },
+}));
+
+vi.mock('./sampler', () => ({
+  loadCurrentKit: async () => null,
+  getCurrentKitId: () => 'test-kit',
+  playPadOn: (_engine: unknown, pad: string, velocity: number, opts: { time?: number; openness?: number }) => {
+    offline.played.push({ pad, velocity, ...opts });
+  },
+}));
+
+const GROOVE: RenderHit[] = [
+  { time: 0, pad: DrumPad.Kick, velocity: 110 },
+  { time: 0, pad: DrumPad.HiHatClosed, velocity: 80 },
+  { time: 0.25, pad: DrumPad.HiHatClosed, velocity: 60 },
+  { time: 0.5, pad: DrumPad.Snare, velocity: 120 },
+  { time: 0.5, pad: DrumPad.HiHatOpen, velocity: 90, openness: 0.5 },
+  { time: 0.75, pad: DrumPad.HiHatPedal, velocity: 70 },
+];
+
+describe('renderHits', () => {
+  beforeEach(() => {
+    offline.render = null;
+    offline.played = [];
+  });
+
+  it('renders stereo at the fixed rate until the tail after the last hit has rung out', async () => {
+    await renderHits(GROOVE, { tail: 0.5 });
+    expect(offline.render).toEqual({ duration: 1.25, channels: 2, sampleRate: 44100 });
+  });
+
+  it('plays hits in time order, keeping the given order of simultaneous hits', async () => {
+    await renderHits([GROOVE[3], GROOVE[5], GROOVE[0], GROOVE[2], GROOVE[4], GROOVE[1]]);
+    expect(offline.played.map(p => [p.pad, p.time, p.velocity])).toEqual(GROOVE.map(h => [h.pad, h.time, h.velocity]));
+  });
+
+  it('drops hits without a valid time and gives hats their default openness', async () => {
+    await renderHits([...GROOVE, { time: -1, pad: DrumPad.Crash, velocity: 100 }, { time: NaN, pad: DrumPad.Ride, velocity: 100 }]);
+    expect(offline.played.map(p => p.pad)).not.toContain(DrumPad.Crash);
+    expect(offline.played.map(p => p.pad)).not.toContain(DrumPad.Ride);
+    expect(offline.played.map(p => p.openness)).toEqual([1, 0, 0, 1, 0.5, 1]);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DrumPad, padToMidi, setDrumEngine, triggerMidi, triggerPad } from './sampler';
+import { MockEngine } from '../engine/AudioEngine';
+
+describe('pad triggers through an injected engine', () => {
+  let engine: MockEngine;
+
+  beforeEach(() => {
+    engine = new MockEngine();
+    setDrumEngine(engine);
+  });
+
+  afterEach(() => {
+    setDrumEngine(null);
+  });
+
+  it('plays a MIDI note on its pad with the given velocity', async () => {
+    await triggerMidi(38, 100);
+    expect(engine.calls[0]).toEqual({ type: 'init' });
+    expect(engine.played()).toEqual([
+      { type: 'play', note: padToMidi(DrumPad.Snare), options: expect.objectContaining({ velocity: 100, time: undefined }) },
+    ]);
+  });
+
+  it('ignores notes no pad is mapped to', async () => {
+    await triggerMidi(0, 100);
+    expect(engine.calls).toEqual([]);
+  });
+
+  it('chokes the other hats before a hat hit at the same time', async () => {
+    await triggerPad(DrumPad.HiHatClosed, 90, 1.5);
+    const stops = engine.calls.filter(c => c.type === 'stop');
+    expect(stops.map(c => c.note).sort()).toEqual([DrumPad.HiHatClosed, DrumPad.HiHatOpen, DrumPad.HiHatPedal].map(padToMidi).sort());
+    stops.forEach(c => expect(c.options.time).toBe(1.5));
+    expect(engine.calls[engine.calls.length - 1]).toMatchObject({ type: 'play', note: padToMidi(DrumPad.HiHatClosed), options: { velocity: 90, time: 1.5 } });
+  });
+
+  it('plays every scheduled pedal chick, however close together', async () => {
+    await triggerPad(DrumPad.HiHatPedal, 80, 2);
+    await triggerPad(DrumPad.HiHatPedal, 80, 2.01);
+    expect(engine.played().map(c => c.options.time)).toEqual([2, 2.01]);
+  });
+
+  it('treats two live chicks in quick succession as one', async () => {
+    await triggerPad(DrumPad.HiHatPedal, 80);
+    await triggerPad(DrumPad.HiHatPedal, 80);
+    expect(engine.played()).toHaveLength(1);
+  });
+});
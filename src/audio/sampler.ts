@@ -1,278 +1,230 @@
 import * as Tone from 'tone';
-import { configureLowLatencyTone } from './toneConfig';
-
-// Primary note names used by our sample set
-type NoteName =
-  | 'C2' // Kick
-  | 'D2' // Snare
-  | 'D#2' // Side Stick
-  | 'F#2' // HH Closed
-  | 'G#2' // HH Pedal (same as closed)
-  | 'A#2' // HH Open
-  | 'C#3' // Crash 18
-  | 'C#4' // Crash 14
-  | 'D#3' // Ride
-  | 'C3' // Tom High
-  | 'A2' // Tom Mid
-  | 'F2'; // Tom Floor
-
-// Semantic drum pads (avoid magic numbers in the app)
-export enum DrumPad {
-  Kick = 'Kick',
-  Snare = 'Snare',
-  Stick = 'Stick',
-  HiHatClosed = 'HiHatClosed',
-  HiHatOpen = 'HiHatOpen',
-  HiHatPedal = 'HiHatPedal',
-  Crash = 'Crash', // supports 14" / 18" variants
-  Ride = 'Ride',
-  TomHigh = 'TomHigh',
-  TomMid = 'TomMid',
-  TomFloor = 'TomFloor',
-}
+import { DEFAULT_KIT_ID, Kit, loadKit } from './kits';
+import { DrumPad, listGmPads, midiNoteToPad, padToMidi } from './drumPads';
+import { createHiHatPedal, HI_HAT_QUARTER_OPENNESS } from './hihat';
+import { clearPadOverrides, DEFAULT_AFTERTOUCH_CHOKE, getPadOverrides, PadSettings, PadSettingsPatch, resolvePadSettings, updatePadOverrides } from './padSettings';
+import { decodeSampleFile, deleteUserSample, isSupportedSampleFile, loadUserSamples, saveUserSample } from './userSamples';
+import type { AudioEngine, VoiceShape } from '../engine/AudioEngine';
+import { ToneSamplerEngine } from '../engine/ToneSamplerEngine';
+import { ToneSynthEngine } from '../engine/ToneSynthEngine';
+
+export { DrumPad, MidiCC, midiNoteToPad, padToMidi, padLabel, listGmPads } from './drumPads';
+export { ensureAudioStarted } from './toneConfig';
+
+export type DrumEngineKind = 'samples' | 'synth';
 
-// GM standard note numbers (subset) for a basic drum kit
-export enum MidiDrum {
-  Kick = 36, // Bass Drum 1
-  Snare = 38, // Acoustic Snare
-  Stick = 37, // Stick
-  HiHatClosed = 42, // Closed Hi-Hat
-  HiHatPedal = 44, // Pedal Hi-Hat
-  HiHatOpen = 46, // Open Hi-Hat
-  Crash = 49, // Crash Cymbal 1
-  Ride = 51, // Ride Cymbal 1
-  TomHigh = 48, // High-Mid Tom
-  TomMid = 45, // Low Tom
-  TomFloor = 41, // Low Floor Tom
+const KIT_STORAGE_KEY = 'drum_kit_v1';
+const ENGINE_STORAGE_KEY = 'drum_engine_v1';
+
+function readStoredKitId() {
+  try {
+    return localStorage.getItem(KIT_STORAGE_KEY) || DEFAULT_KIT_ID;
+  } catch {
+    return DEFAULT_KIT_ID;
+  }
 }
 
-// MIDI Control Change semantics used
-export enum MidiCC {
-  FootController = 4,
-  SustainPedal = 64,
+function readStoredEngineKind(): DrumEngineKind {
+  try {
+    return localStorage.getItem(ENGINE_STORAGE_KEY) === 'synth' ? 'synth' : 'samples';
+  } catch {
+    return 'samples';
+  }
 }
 
-// One place to convert semantic pads <-> MIDI notes
-const PAD_TO_MIDI: Record<DrumPad, MidiDrum> = {
-  [DrumPad.Kick]: MidiDrum.Kick,
-  [DrumPad.Snare]: MidiDrum.Snare,
-  [DrumPad.Stick]: MidiDrum.Stick,
-  [DrumPad.HiHatClosed]: MidiDrum.HiHatClosed,
-  [DrumPad.HiHatPedal]: MidiDrum.HiHatPedal,
-  [DrumPad.HiHatOpen]: MidiDrum.HiHatOpen,
-  [DrumPad.Crash]: MidiDrum.Crash,
-  [DrumPad.Ride]: MidiDrum.Ride,
-  [DrumPad.TomHigh]: MidiDrum.TomHigh,
-  [DrumPad.TomMid]: MidiDrum.TomMid,
-  [DrumPad.TomFloor]: MidiDrum.TomFloor,
-};
+let currentKitId = readStoredKitId();
+let currentKit: Kit | null = null;
+let preferredEngine = readStoredEngineKind();
+let samplesEngine: ToneSamplerEngine | null = null;
+let synthEngine: ToneSynthEngine | null = null;
+// Set by the UI (or a test) to play through an engine of its own choosing
+let injectedEngine: AudioEngine | null = null;
+// The current kit failed to load; play the synth until the kit or engine changes
+let useSynthFallback = false;
+// Whether the engine has been initialised once, so switches can warm the next one up
+let engineStarted = false;
 
-const MIDI_TO_PAD: Record<number, DrumPad> = Object.fromEntries(
-  Object.entries(PAD_TO_MIDI).map(([pad, midi]) => [midi as number, pad as unknown as DrumPad])
-) as Record<number, DrumPad>;
-
-// Basic kit mapping: pads -> sample note names
-const BASIC_MAP_PAD: Record<Exclude<DrumPad, DrumPad.Crash | DrumPad.HiHatPedal>, NoteName> & { Crash?: never; HiHatPedal?: never } = {
-  [DrumPad.Kick]: 'C2',
-  [DrumPad.Snare]: 'D2',
-  [DrumPad.Stick]: 'D#2',
-  [DrumPad.HiHatClosed]: 'F#2',
-  [DrumPad.HiHatOpen]: 'A#2',
-  [DrumPad.Ride]: 'D#3',
-  [DrumPad.TomHigh]: 'C3',
-  [DrumPad.TomMid]: 'A2',
-  [DrumPad.TomFloor]: 'F2',
-};
+// Many e-kits send a pedal note as well as CC4; treat two chicks this close as one
+const HH_CHICK_DEDUPE_MS = 60;
 
-// Map some local samples to note names above
-// Using Vite asset URLs so these files are bundled and served correctly.
-// Brand-qualified paths served from public/samples/<Brand>/
-const BRAND = 'GSCW';
-const base = `/samples/${BRAND}`;
-const urls: Record<NoteName, string> = {
-  C2: `${base}/kick.wav`,
-  D2: `${base}/snare.wav`,
-  'D#2': `${base}/stick.wav`,
-  'F#2': `${base}/hh-closed.wav`,
-  'G#2': `${base}/hh-closed.wav`,
-  'A#2': `${base}/hh-open.wav`,
-  'C#3': `${base}/crash.wav`,
-  'C#4': `${base}/crash.wav`,
-  'D#3': `${base}/ride.wav`,
-  C3: `${base}/tom-high.wav`,
-  A2: `${base}/tom-mid.wav`,
-  F2: `${base}/tom-floor.wav`,
-};
+// Hi-hat pedal position from CC4 (0 closed .. 1 open)
+const hiHatPedal = createHiHatPedal();
+let lastPedalChickAt = -Infinity;
 
-let loaded: Promise<Tone.Sampler> | null = null;
-let sampler: Tone.Sampler | null = null;
-let useSynthFallback = false;
-let synthBus: {
-  gain: Tone.Gain;
-  kick: Tone.MembraneSynth;
-  snare: Tone.NoiseSynth;
-  hat: Tone.MetalSynth;
-  cym: Tone.MetalSynth;
-  tomHigh: Tone.MembraneSynth;
-  tomMid: Tone.MembraneSynth;
-  tomFloor: Tone.MembraneSynth;
-} | null = null;
-
-// Hi-hat openness from CC4 (0..1)
-let hiHatOpenLevel = 0; // 0 closed, 1 fully open
 export function setHiHatOpenByCC4(value: number) {
-  hiHatOpenLevel = Math.max(0, Math.min(1, value / 127));
+  const event = hiHatPedal.update(value / 127, performance.now());
+  if (!event) return;
+  if (event.type === 'chick') {
+    // Fast close: foot chick, which also chokes the ringing hat
+    void triggerPad(DrumPad.HiHatPedal, event.velocity);
+  } else {
+    // Slow close: no chick, but the hat stops ringing
+    chokePad(DrumPad.HiHatOpen);
+    chokePad(DrumPad.HiHatClosed);
+  }
+}
+
+// How open a hat hit should sound. Closed hits follow the pedal; open hits
+// ring fully without a pedal, and never drop below a quarter open with one.
+function hiHatOpenness(pad: DrumPad) {
+  if (pad === DrumPad.HiHatClosed) return hiHatPedal.openness();
+  if (!hiHatPedal.seen()) return 1;
+  return Math.max(HI_HAT_QUARTER_OPENNESS, hiHatPedal.openness());
 }
 
-// Hi-hat timing constants (seconds) — avoid magic numbers
-const HH_OPEN_DEFAULT = 0.9; // synth fallback only; samples ring naturally
-const HH_CLOSED_RELEASE = 0.16; // short but audible tick
-const HH_PEDAL_RELEASE = 0.10;  // foot chick
-
-export async function ensureAudioStarted() {
-  configureLowLatencyTone();
-  let ctx = Tone.getContext();
-  if (ctx.state === 'closed') {
-    const next = new Tone.Context({ latencyHint: 'interactive' });
-    Tone.setContext(next);
-    ctx = Tone.getContext();
+// The engine pad hits go to: an injected one, else the user's choice of samples or synth
+export function getDrumEngine(): AudioEngine {
+  if (injectedEngine) return injectedEngine;
+  if (preferredEngine === 'samples' && !useSynthFallback) {
+    if (!samplesEngine) samplesEngine = new ToneSamplerEngine(currentKitId);
+    return samplesEngine;
   }
-  if (ctx.state === 'running') return true;
-  try {
-    await Tone.start();
-  } catch {}
-  return Tone.getContext().state === 'running';
+  if (!synthEngine) synthEngine = new ToneSynthEngine();
+  return synthEngine;
 }
 
-function ensureSynth() {
-  if (synthBus) return synthBus;
-  const gain = new Tone.Gain(0.9).toDestination();
-  const kick = new Tone.MembraneSynth({ octaves: 2, pitchDecay: 0.01, envelope: { attack: 0.001, decay: 0.3, sustain: 0 } }).connect(gain);
-  const snare = new Tone.NoiseSynth({ noise: { type: 'white' }, envelope: { attack: 0.001, decay: 0.2, sustain: 0 } }).connect(gain);
-  const hat = new Tone.MetalSynth({ envelope: { attack: 0.001, decay: 0.08, release: 0.01 }, harmonicity: 5.1, modulationIndex: 32, resonance: 4000, octaves: 1.5 }).connect(gain);
-  const cym = new Tone.MetalSynth({ envelope: { attack: 0.001, decay: 1.8, release: 0.5 }, harmonicity: 5.1, modulationIndex: 16, resonance: 2000, octaves: 2.5 }).connect(gain);
-  // set frequencies after construction to satisfy Tone types
-  hat.frequency.value = 400;
-  cym.frequency.value = 300;
-  const tomHigh = new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.3, sustain: 0 } }).connect(gain);
-  const tomMid = new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.35, sustain: 0 } }).connect(gain);
-  const tomFloor = new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.45, sustain: 0 } }).connect(gain);
-  synthBus = { gain, kick, snare, hat, cym, tomHigh, tomMid, tomFloor };
-  return synthBus;
+// Replace the built-in engines, e.g. with a MockEngine in component tests; null restores them
+export function setDrumEngine(engine: AudioEngine | null) {
+  injectedEngine = engine;
 }
 
-export function isUsingFallback() {
-  return useSynthFallback;
+// The current kit's manifest, for its pad list and settings; rejects if it cannot be loaded
+export async function loadCurrentKit() {
+  const id = currentKitId;
+  const kit = await loadKit(id);
+  if (id === currentKitId) currentKit = kit;
+  return kit;
 }
 
-export async function getDrumSampler() {
-  if (useSynthFallback) {
-    ensureSynth();
-    // Return a dummy promise to keep callers simple
-    return Promise.resolve(null as unknown as Tone.Sampler);
-  }
-  if (!loaded) {
-    loaded = new Promise<Tone.Sampler>((resolve, reject) => {
-      const gain = new Tone.Gain(1).toDestination();
-      try {
-        sampler = new Tone.Sampler({ urls, onload: () => resolve(sampler!), onerror: (e) => reject(e) }).connect(gain);
-      } catch (e) {
-        reject(e);
-      }
-    }).catch(e => {
-      // Switch to synth fallback if sample decoding fails
-      console.warn('Sampler load failed; falling back to synth. Error:', e);
-      useSynthFallback = true;
-      ensureSynth();
-      // Return a resolved dummy to keep flow
-      return null as unknown as Tone.Sampler;
-    });
+// Kit manifest settings (choke groups etc.) apply whichever engine plays
+function ensureKitManifest() {
+  if (currentKit?.id === currentKitId) return;
+  loadCurrentKit().catch(() => {});
+}
+
+// Pads to show: the core kit, plus any other GM sounds the current kit has samples for.
+// Every GM note still plays; sounds the kit lacks fall back to the closest pad it has.
+export function listDrumPads() {
+  return listGmPads(pad => !!currentKit?.pads[pad]);
+}
+
+// Start audio and load the active engine. If the kit cannot be loaded this
+// falls back to the synth; it only rejects when audio itself is unavailable.
+export async function initDrumEngine(): Promise<AudioEngine> {
+  const engine = getDrumEngine();
+  ensureKitManifest();
+  try {
+    await engine.init();
+    engineStarted = true;
+    return engine;
+  } catch (e) {
+    // A newer kit or engine took over while this one loaded
+    if (engine !== getDrumEngine()) return initDrumEngine();
+    if (engine !== samplesEngine || Tone.getContext().state !== 'running') throw e;
+    // Switch to synth fallback if the kit or its samples fail to load
+    console.warn('Sampler load failed; falling back to synth. Error:', e);
+    useSynthFallback = true;
+    return initDrumEngine();
   }
-  return loaded;
 }
 
-function padToNoteName(pad: DrumPad): NoteName {
-  if (pad === DrumPad.Crash) return 'C#3'; // default use 18"
-  return BASIC_MAP_PAD[pad as Exclude<DrumPad, DrumPad.Crash | DrumPad.HiHatPedal>] as NoteName;
+export function isUsingFallback() {
+  return useSynthFallback && !injectedEngine && preferredEngine === 'samples';
 }
 
-export function midiNoteToPad(noteNumber: number): DrumPad | null {
-  return MIDI_TO_PAD[noteNumber] ?? null;
+// What is actually playing: the synth also covers a kit that failed to load
+export function getEngineKind(): DrumEngineKind {
+  return preferredEngine === 'samples' && !useSynthFallback ? 'samples' : 'synth';
 }
 
-export async function triggerPad(pad: DrumPad, velocity: number) {
-  const vel = Math.max(0, Math.min(1, velocity / 127));
-  const ready = await ensureAudioStarted();
-  if (!ready) return;
-  await getDrumSampler();
-  // Hi-hat is monophonic: new event chokes previous
-  if (pad === DrumPad.HiHatClosed || pad === DrumPad.HiHatOpen || pad === DrumPad.HiHatPedal) {
-    chokeHiHatAll();
-  }
-  if (useSynthFallback) {
-    const voice = padToVoice(pad);
-    const bus = ensureSynth();
-    const now = Tone.immediate();
-    switch (voice) {
-      case 'kick':
-        bus.kick.triggerAttackRelease(50, '8n', now, vel);
-        break;
-      case 'snare':
-        bus.snare.triggerAttackRelease('16n', now, vel);
-        break;
-      case 'hhOpen': {
-        const decay = HH_OPEN_DEFAULT;
-        bus.hat.envelope.decay = decay;
-        bus.hat.triggerAttackRelease(decay, now, 0.5 + vel * 0.5);
-        break;
-      }
-      case 'hhClosed':
-      case 'hhPedal': {
-        const decay = HH_CLOSED_RELEASE;
-        bus.hat.envelope.decay = decay;
-        bus.hat.triggerAttackRelease(decay, now, 0.4 + vel * 0.6);
-        break;
-      }
-      case 'crash':
-        bus.cym.envelope.decay = 1.6;
-        bus.cym.triggerAttackRelease('2n', now, 0.4 + vel * 0.6);
-        break;
-      case 'ride':
-        bus.cym.envelope.decay = 0.6;
-        bus.cym.triggerAttackRelease('8n', now, 0.4 + vel * 0.6);
-        break;
-      case 'tomHigh':
-        bus.tomHigh.triggerAttackRelease(220, '8n', now, vel);
-        break;
-      case 'tomMid':
-        bus.tomMid.triggerAttackRelease(180, '8n', now, vel);
-        break;
-      case 'tomFloor':
-        bus.tomFloor.triggerAttackRelease(140, '8n', now, vel);
-        break;
-    }
-    return;
-  }
-  const now = Tone.immediate();
-  if (pad === DrumPad.HiHatClosed) {
-    sampler!.triggerAttack('F#2', now, vel);
-    // closed stick tick: short but not too short
-    sampler!.triggerRelease('F#2', now + HH_CLOSED_RELEASE);
-    return;
-  }
-  if (pad === DrumPad.HiHatOpen) {
-    // Play original open sample tail; do not shorten based on CC
-    sampler!.triggerAttack('A#2', now, vel);
-    return;
+export function getPreferredEngineKind() {
+  return preferredEngine;
+}
+
+// Switch between the sample kit and the synth at runtime
+export async function setEngineKind(kind: DrumEngineKind) {
+  preferredEngine = kind;
+  // Give the kit another chance if it previously fell back
+  if (kind === 'samples') useSynthFallback = false;
+  try { localStorage.setItem(ENGINE_STORAGE_KEY, kind); } catch {}
+  if (engineStarted) await initDrumEngine();
+}
+
+export function getCurrentKitId() {
+  return currentKitId;
+}
+
+// Tear down the loaded samples and rebuild them from another kit without a reload.
+// Throws if the kit manifest cannot be loaded; the current kit stays active then.
+export async function setKit(id: string) {
+  const kit = await loadKit(id);
+  samplesEngine?.dispose();
+  samplesEngine = null;
+  currentKit = kit;
+  currentKitId = id;
+  // Give the new kit a chance even if the previous one fell back to synth
+  useSynthFallback = false;
+  try { localStorage.setItem(KIT_STORAGE_KEY, id); } catch {}
+  if (engineStarted) await initDrumEngine();
+}
+
+// Assign a dropped or picked file to a pad of the current kit. Rejects with a
+// readable message if the file is not a decodable WAV/MP3/OGG.
+export async function setUserSample(pad: DrumPad, file: File) {
+  if (!isSupportedSampleFile(file)) throw new Error(`"${file.name}" is not a WAV, MP3 or OGG file.`);
+  const kitId = currentKitId;
+  const buffer = await decodeSampleFile(file);
+  await saveUserSample(kitId, pad, file);
+  if (kitId === currentKitId) samplesEngine?.setPadBuffer(pad, buffer);
+}
+
+// Back to the sample the kit ships for this pad
+export async function clearUserSample(pad: DrumPad) {
+  await deleteUserSample(currentKitId, pad);
+  samplesEngine?.setPadBuffer(pad, null);
+}
+
+// File names of the user samples in the current kit, by pad
+export async function getUserSampleNames(): Promise<Partial<Record<DrumPad, string>>> {
+  const samples = await loadUserSamples(currentKitId);
+  const names: Partial<Record<DrumPad, string>> = {};
+  Object.values(samples).forEach(s => {
+    if (s) names[s.pad] = s.name;
+  });
+  return names;
+}
+
+const HI_HAT_PADS = new Set([DrumPad.HiHatClosed, DrumPad.HiHatOpen]);
+
+// `time` schedules the hit on the audio clock (e.g. from the Transport); omitted, it plays now.
+// Only live chicks are deduped: scheduled ones come from a pattern and are meant as written.
+export async function triggerPad(pad: DrumPad, velocity: number, time?: number) {
+  if (pad === DrumPad.HiHatPedal && time == null) {
+    const t = performance.now();
+    if (t - lastPedalChickAt < HH_CHICK_DEDUPE_MS) return;
+    lastPedalChickAt = t;
   }
-  if (pad === DrumPad.HiHatPedal) {
-    // Pedal mapped to G#2; identical file as F#2 by mapping
-    sampler!.triggerAttack('G#2', now, vel);
-    sampler!.triggerRelease('G#2', now + HH_CLOSED_RELEASE);
+  let engine: AudioEngine;
+  try {
+    engine = await initDrumEngine();
+  } catch {
     return;
   }
-  const noteName = padToNoteName(pad);
-  sampler!.triggerAttack(noteName, now, vel);
+  playPadOn(engine, pad, velocity, { time, openness: hiHatOpenness(pad) });
+}
+
+// One hit on a given engine with the same choke groups and pad shaping as live play.
+// Exports use it to replay hits at exact times on an offline engine.
+export function playPadOn(engine: AudioEngine, pad: DrumPad, velocity: number, opts: { time?: number; openness?: number } = {}) {
+  applyChokeGroups(engine, pad, opts.time);
+  const openness = HI_HAT_PADS.has(pad) ? opts.openness : undefined;
+  engine.play(padToMidi(pad), { velocity: Math.max(0, Math.min(127, velocity)), time: opts.time, openness, shape: padShape(pad) });
+}
+
+// Tuning, envelope and filter settings as the engines take them; read per hit so edits apply live
+export function padShape(pad: DrumPad): VoiceShape {
+  const { tune, fine, decay, release, lowpass, highpass, velocityBrightness } = getPadSettings(pad);
+  return { pitch: tune + fine / 100, decay, release, lowpass, highpass, velocityBrightness };
 }
 
 // Back-compat thin adapter for raw MIDI input
@@ -282,94 +234,59 @@ export async function triggerMidi(noteNumber: number, velocity: number) {
   return triggerPad(pad, velocity);
 }
 
-type Voice = 'kick' | 'snare' | 'hhClosed' | 'hhOpen' | 'hhPedal' | 'crash' | 'ride' | 'tomHigh' | 'tomMid' | 'tomFloor';
-function padToVoice(pad: DrumPad): Voice {
-  switch (pad) {
-    case DrumPad.Kick:
-      return 'kick';
-    case DrumPad.Snare:
-      return 'snare';
-    case DrumPad.HiHatOpen:
-      return 'hhOpen';
-    case DrumPad.HiHatClosed:
-      return 'hhClosed';
-    case DrumPad.HiHatPedal:
-      return 'hhPedal';
-    case DrumPad.Crash:
-      return 'crash';
-    case DrumPad.Ride:
-      return 'ride';
-    case DrumPad.TomHigh:
-      return 'tomHigh';
-    case DrumPad.TomMid:
-      return 'tomMid';
-    case DrumPad.TomFloor:
-      return 'tomFloor';
-    case DrumPad.Stick:
-      return 'snare';
-  }
-  return 'snare';
+// App defaults: the three hat pads behave as one monophonic instrument,
+// and cymbals can be grabbed (poly aftertouch) to choke them
+const BUILTIN_PAD_SETTINGS: Partial<Record<DrumPad, PadSettingsPatch>> = {
+  [DrumPad.HiHatClosed]: { chokeGroup: 1, selfChoke: true },
+  [DrumPad.HiHatPedal]: { chokeGroup: 1, selfChoke: true },
+  [DrumPad.HiHatOpen]: { chokeGroup: 1, selfChoke: true },
+  [DrumPad.Crash]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+  [DrumPad.Crash2]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+  [DrumPad.China]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+  [DrumPad.Splash]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+  [DrumPad.Ride]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+  [DrumPad.Ride2]: { aftertouchChoke: DEFAULT_AFTERTOUCH_CHOKE },
+};
+
+// Effective settings: app defaults < kit manifest < user edits for this kit
+export function getPadSettings(pad: DrumPad): PadSettings {
+  return resolvePadSettings(BUILTIN_PAD_SETTINGS[pad], currentKit?.pads[pad]?.settings, getPadOverrides(currentKitId, pad));
 }
 
-const PAD_LABELS: Record<DrumPad, string> = {
-  [DrumPad.Kick]: 'Kick',
-  [DrumPad.Snare]: 'Snare',
-  [DrumPad.Stick]: 'Stick',
-  [DrumPad.HiHatClosed]: 'HH Close',
-  [DrumPad.HiHatPedal]: 'HH Pedal',
-  [DrumPad.HiHatOpen]: 'HH Open',
-  [DrumPad.Crash]: 'Crash',
-  [DrumPad.Ride]: 'Ride',
-  [DrumPad.TomHigh]: 'Tom H',
-  [DrumPad.TomMid]: 'Tom M',
-  [DrumPad.TomFloor]: 'Tom F',
-};
+export function updatePadSettings(pad: DrumPad, patch: PadSettingsPatch) {
+  updatePadOverrides(currentKitId, pad, patch);
+}
 
-export function listDrumPads() {
-  const pads: DrumPad[] = [
-    DrumPad.Kick,
-    DrumPad.Snare,
-    DrumPad.Stick,
-    DrumPad.HiHatClosed,
-    DrumPad.HiHatPedal,
-    DrumPad.HiHatOpen,
-    DrumPad.Crash,
-    DrumPad.Ride,
-    DrumPad.TomHigh,
-    DrumPad.TomMid,
-    DrumPad.TomFloor,
-  ];
-  return pads.map(p => ({ pad: p, midi: PAD_TO_MIDI[p] as number, label: PAD_LABELS[p] }));
+// Drop the user's edits so the kit (or app) defaults apply again; optionally only some fields
+export function resetPadSettings(pad: DrumPad, keys?: readonly (keyof PadSettings)[]) {
+  clearPadOverrides(currentKitId, pad, keys);
 }
 
-function chokeOpenHiHat() {
-  const now = Tone.immediate();
-  if (useSynthFallback) {
-    try {
-      const bus = ensureSynth();
-      bus.hat.triggerRelease(now);
-    } catch {}
-    return;
-  }
-  // Samples engine: release the Open Hi-Hat note ('A#2')
-  try {
-    if (sampler) sampler.triggerRelease('A#2', now);
-  } catch {}
+// Fade out whatever this pad is still sounding on the active engine
+export function chokePad(pad: DrumPad, fade = getPadSettings(pad).chokeFade, time?: number) {
+  chokePadOn(getDrumEngine(), pad, fade, time);
 }
 
-function chokeHiHatAll() {
-  const now = Tone.immediate();
-  if (useSynthFallback) {
-    try {
-      const bus = ensureSynth();
-      bus.hat.triggerRelease(now);
-    } catch {}
-    return;
+function chokePadOn(engine: AudioEngine, pad: DrumPad, fade: number, time?: number) {
+  engine.stop(padToMidi(pad), { time, fade });
+}
+
+// Cymbal grab: choke the pad once the pressure reaches its threshold
+export function handlePadAftertouch(pad: DrumPad, pressure: number) {
+  const { aftertouchChoke, chokeFade } = getPadSettings(pad);
+  if (aftertouchChoke == null || pressure < aftertouchChoke) return false;
+  chokePad(pad, chokeFade);
+  return true;
+}
+
+// A new hit cuts every other pad in its choke group, and itself when self-choking
+function applyChokeGroups(engine: AudioEngine, pad: DrumPad, time?: number) {
+  const own = getPadSettings(pad);
+  if (own.selfChoke) chokePadOn(engine, pad, own.chokeFade, time);
+  if (own.chokeGroup == null) return;
+  for (const other of Object.values(DrumPad)) {
+    if (other === pad) continue;
+    const settings = getPadSettings(other);
+    if (settings.chokeGroup === own.chokeGroup) chokePadOn(engine, other, settings.chokeFade, time);
   }
-  try {
-    if (sampler) {
-      sampler.triggerRelease('A#2', now);
-      sampler.triggerRelease('F#2', now);
-    }
-  } catch {}
 }
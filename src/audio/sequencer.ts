@@ -0,0 +1,221 @@
+import * as Tone from 'tone';
+import { getState } from './metronome';
+import { DrumPad, triggerPad } from './sampler';
+import { on } from './transportEvents';
+import { loadList, newId, saveJson } from '../lib/storage';
+
+// Step sequencer: a grid of pads × steps played on the metronome's Transport,
+// so the groove follows its tempo, trainer and tempo maps. Patterns are kept in localStorage.
+export type StepResolution = '4n' | '8n' | '8t' | '16n' | '16t';
+
+// Steps per quarter note (one Transport quarter); a '16n' step is a sixteenth in 6/8 too
+export const STEPS_PER_QUARTER: Record<StepResolution, number> = {
+  '4n': 1,
+  '8n': 2,
+  '8t': 3,
+  '16n': 4,
+  '16t': 6,
+};
+
+export const STEP_RESOLUTIONS = Object.keys(STEPS_PER_QUARTER) as StepResolution[];
+
+export type SequencerPattern = {
+  id: string;
+  name: string;
+  length: number; // steps before the pattern repeats
+  resolution: StepResolution;
+  // Velocity per step (0 = off), MAX_STEPS long whatever the length, so shortening keeps the hits
+  rows: Partial<Record<DrumPad, number[]>>;
+};
+
+// A chain of patterns laid out on the Transport's ticks, as song mode plays it.
+// Ticks are not moved by tempo changes, so the sections stay put through them.
+export type SequencerTrack = {
+  startTick: number; // after the count-in
+  sections: { ticks: number; pattern: SequencerPattern | null; muted: boolean }[];
+  loop: boolean;
+};
+
+export const MAX_STEPS = 32;
+export const STEP_COUNTS = [16, 32];
+// Clicking a step goes off → normal → accent → ghost → off
+export const STEP_VELOCITIES = [96, 127, 48];
+// Every resolution's steps fall on this grid (1, 2, 3, 4 and 6 per quarter)
+const GRID_PER_QUARTER = 12;
+
+const STORAGE_KEY = 'sequencer_patterns_v1';
+const PADS = new Set(Object.values(DrumPad) as string[]);
+
+let enabled = false;
+let pattern: SequencerPattern | null = null;
+let track: SequencerTrack | null = null;
+let step: number | null = null;
+let repeatEvent: number | null = null;
+const listeners = new Set<() => void>();
+const patternListeners = new Set<() => void>();
+
+function clampVelocity(value: unknown) {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.max(0, Math.min(127, n)) : 0;
+}
+
+export function normalizePattern(raw: Partial<SequencerPattern> | null | undefined): SequencerPattern {
+  const rows: Partial<Record<DrumPad, number[]>> = {};
+  Object.entries(raw?.rows ?? {}).forEach(([pad, steps]) => {
+    if (!PADS.has(pad) || !Array.isArray(steps)) return;
+    const velocities = new Array(MAX_STEPS).fill(0).map((_, i) => clampVelocity(steps[i]));
+    if (velocities.some(v => v > 0)) rows[pad as DrumPad] = velocities;
+  });
+  const length = Math.round(Number(raw?.length));
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('pattern'),
+    name: typeof raw?.name === 'string' ? raw.name : 'Pattern',
+    length: Number.isFinite(length) ? Math.max(1, Math.min(MAX_STEPS, length)) : 16,
+    resolution: STEP_RESOLUTIONS.includes(raw?.resolution as StepResolution) ? (raw!.resolution as StepResolution) : '16n',
+    rows,
+  };
+}
+
+// A backbeat to start from
+export function createPattern(name = 'New pattern'): SequencerPattern {
+  const row = (every: number, offset = 0, velocity = STEP_VELOCITIES[0]) =>
+    new Array(MAX_STEPS).fill(0).map((_, i) => (i % every === offset ? velocity : 0));
+  return normalizePattern({
+    id: newId('pattern'),
+    name,
+    length: 16,
+    resolution: '16n',
+    rows: { [DrumPad.Kick]: row(8), [DrumPad.Snare]: row(8, 4), [DrumPad.HiHatClosed]: row(2) },
+  });
+}
+
+export function listPatterns(): SequencerPattern[] {
+  return loadList(STORAGE_KEY, normalizePattern);
+}
+
+export function savePatterns(patterns: SequencerPattern[]) {
+  saveJson(STORAGE_KEY, patterns);
+  patternListeners.forEach(fn => fn());
+}
+
+// Pattern length in quarter notes
+export function patternQuarters(p: SequencerPattern) {
+  return p.length / STEPS_PER_QUARTER[p.resolution];
+}
+
+// Off → the first velocity → … → the last → off
+export function nextStepVelocity(velocity: number) {
+  if (velocity <= 0) return STEP_VELOCITIES[0];
+  const index = STEP_VELOCITIES.indexOf(velocity);
+  return index < 0 || index === STEP_VELOCITIES.length - 1 ? 0 : STEP_VELOCITIES[index + 1];
+}
+
+export function setStep(p: SequencerPattern, pad: DrumPad, index: number, velocity: number): SequencerPattern {
+  const steps = [...(p.rows[pad] ?? new Array(MAX_STEPS).fill(0))];
+  steps[index] = clampVelocity(velocity);
+  const rows = { ...p.rows };
+  if (steps.some(v => v > 0)) rows[pad] = steps;
+  else delete rows[pad];
+  return { ...p, rows };
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+function stepTicks(p: SequencerPattern) {
+  return Tone.Transport.PPQ / STEPS_PER_QUARTER[p.resolution];
+}
+
+// Where the track is at `ticks`: the section's pattern and the ticks into that section
+function trackPosition(t: SequencerTrack, ticks: number) {
+  let offset = ticks - t.startTick;
+  const total = t.sections.reduce((sum, s) => sum + s.ticks, 0);
+  if (offset < 0 || !total) return null;
+  if (offset >= total) {
+    if (!t.loop) return null;
+    offset %= total;
+  }
+  for (const section of t.sections) {
+    if (offset < section.ticks) return section.pattern ? { pattern: section.pattern, offset, muted: section.muted } : null;
+    offset -= section.ticks;
+  }
+  return null;
+}
+
+// Steps count from the Transport's start (or the track section's start), so the
+// grid stays on the beat through tempo changes
+function playStep(time: number) {
+  const ticks = Math.round(Tone.Transport.getTicksAtTime(time));
+  const at = track ? trackPosition(track, ticks) : enabled && pattern ? { pattern, offset: ticks, muted: false } : null;
+  if (!at) return;
+  const size = stepTicks(at.pattern);
+  if (at.offset % size !== 0) return;
+  const p = at.pattern;
+  const index = (at.offset / size) % p.length;
+  if (!at.muted) {
+    (Object.keys(p.rows) as DrumPad[]).forEach(pad => {
+      const velocity = p.rows[pad]?.[index] ?? 0;
+      if (velocity > 0) void triggerPad(pad, velocity, time);
+    });
+  }
+  Tone.Draw.schedule(() => {
+    step = index;
+    notify();
+  }, time);
+}
+
+// One repeat on the finest grid serves every resolution; it is only created once
+// there is something to play, and only fires while the metronome runs the Transport
+function ensureRepeat() {
+  if (repeatEvent != null || !(track || (enabled && pattern))) return;
+  repeatEvent = Tone.Transport.scheduleRepeat(playStep, `${Tone.Transport.PPQ / GRID_PER_QUARTER}i`, 0);
+}
+
+on('start', ensureRepeat);
+
+on('stop', () => {
+  step = null;
+  notify();
+});
+
+export function getSequencerState() {
+  return { enabled, step, patternId: pattern?.id ?? null, track: !!track };
+}
+
+// The pattern to play; edits take effect from the next step
+export function setSequencerPattern(next: SequencerPattern | null) {
+  pattern = next;
+  if (getState().isRunning) ensureRepeat();
+  notify();
+}
+
+export function setSequencerEnabled(value: boolean) {
+  enabled = value;
+  if (!value) step = null;
+  if (getState().isRunning) ensureRepeat();
+  notify();
+}
+
+// While a track is set it plays instead of the pattern
+export function setSequencerTrack(next: SequencerTrack | null) {
+  track = next;
+  step = null;
+  if (getState().isRunning) ensureRepeat();
+  notify();
+}
+
+export function subscribeSequencer(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// Called whenever the stored patterns change, e.g. after an arrangement import
+export function subscribePatterns(fn: () => void) {
+  patternListeners.add(fn);
+  return () => {
+    patternListeners.delete(fn);
+  };
+}
@@ -0,0 +1,51 @@
+import * as Tone from 'tone';
+import { getOutputBus } from './outputBus';
+import { ensureAudioStarted } from './toneConfig';
+import { createTake, Take } from './takes';
+
+// Captures the live output (drums, and the click if asked) in real time.
+// Offline bouncing of hits lives in render.ts; this records what was actually heard.
+let recorder: Tone.Recorder | null = null;
+let withClick = false;
+let startedAt = 0;
+let takeCount = 0;
+
+export function isRecordingSupported() {
+  return Tone.Recorder.supported;
+}
+
+export function isSessionRecording() {
+  return recorder?.state === 'started';
+}
+
+// Seconds since recording started, for the UI clock
+export function recordingElapsed() {
+  return isSessionRecording() ? (performance.now() - startedAt) / 1000 : 0;
+}
+
+export async function startSessionRecording(opts: { includeClick: boolean }) {
+  if (isSessionRecording()) return;
+  if (!isRecordingSupported()) throw new Error('This browser cannot record audio.');
+  const started = await ensureAudioStarted();
+  if (!started) throw new Error('Audio is locked by the browser. Click Enable audio.');
+  recorder?.dispose();
+  recorder = new Tone.Recorder();
+  withClick = opts.includeClick;
+  getOutputBus('drums').connect(recorder);
+  if (withClick) getOutputBus('click').connect(recorder);
+  await recorder.start();
+  startedAt = performance.now();
+}
+
+// Stop and keep the recording as a new take
+export async function stopSessionRecording(): Promise<Take | null> {
+  const active = recorder;
+  if (!active || active.state !== 'started') return null;
+  const blob = await active.stop();
+  getOutputBus('drums').disconnect(active);
+  if (withClick) getOutputBus('click').disconnect(active);
+  active.dispose();
+  if (recorder === active) recorder = null;
+  takeCount++;
+  return createTake(blob, withClick, `Take ${takeCount} · ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+}
@@ -0,0 +1,203 @@
+import { setControlHandler } from './controlBindings';
+import { BEAT_UNITS, BeatUnit, groupingPresets, MAX_BEATS_PER_BAR, MAX_BPM, MIN_BPM, playTempoMap, stop, TempoMapStatus } from './metronome';
+import { clampInt, downloadJson, fileSafeName, loadList, newId, readJsonFile, saveJson } from '../lib/storage';
+
+// Rehearsal setlists: songs in order, each a tempo map of sections the
+// metronome steps through after a count-in. Stored in localStorage, shared as JSON.
+export type SetlistSection = {
+  id: string;
+  name: string;
+  bars: number;
+  bpm: number;
+  beats: number;
+  beatUnit: BeatUnit;
+  accents?: boolean[]; // unset: the signature's grouping accents, or the metronome's own
+};
+
+export type SetlistSong = {
+  id: string;
+  name: string;
+  countInBars: number;
+  sections: SetlistSection[];
+};
+
+export type Setlist = {
+  id: string;
+  name: string;
+  songs: SetlistSong[];
+};
+
+export type SetlistPlayback = {
+  setlistId: string;
+  songIndex: number; // the song playing, or cued up for the next press
+  playing: boolean;
+  played: boolean; // false while the song is only cued
+  status: TempoMapStatus | null;
+};
+
+export const NEXT_SONG_SHORTCUT = 'n';
+export const MAX_COUNT_IN_BARS = 4;
+export const MAX_SECTION_BARS = 999;
+
+const STORAGE_KEY = 'metronome_setlists_v1';
+const FILE_FORMAT = 'web-drumkit-setlist';
+const FILE_VERSION = 1;
+
+let playback: SetlistPlayback | null = null;
+// Bumped per playSong, so callbacks of a replaced song are ignored
+let run = 0;
+const listeners = new Set<() => void>();
+
+function normalizeSection(raw: Partial<SetlistSection> | null | undefined): SetlistSection {
+  const beats = clampInt(raw?.beats, 1, MAX_BEATS_PER_BAR, 4);
+  const accents = Array.isArray(raw?.accents) ? raw!.accents.slice(0, beats).map(Boolean) : null;
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('section'),
+    name: typeof raw?.name === 'string' ? raw.name : 'Section',
+    bars: clampInt(raw?.bars, 1, MAX_SECTION_BARS, 8),
+    bpm: clampInt(raw?.bpm, MIN_BPM, MAX_BPM, 100),
+    beats,
+    beatUnit: BEAT_UNITS.includes(raw?.beatUnit as BeatUnit) ? (raw!.beatUnit as BeatUnit) : 4,
+    ...(accents && { accents: [...accents, ...new Array(beats - accents.length).fill(false)] }),
+  };
+}
+
+function normalizeSong(raw: Partial<SetlistSong> | null | undefined): SetlistSong {
+  const sections = Array.isArray(raw?.sections) ? raw!.sections.map(normalizeSection) : [];
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('song'),
+    name: typeof raw?.name === 'string' ? raw.name : 'Song',
+    countInBars: clampInt(raw?.countInBars, 0, MAX_COUNT_IN_BARS, 1),
+    sections: sections.length ? sections : [createSection()],
+  };
+}
+
+export function normalizeSetlist(raw: Partial<Setlist> | null | undefined): Setlist {
+  return {
+    id: typeof raw?.id === 'string' && raw.id ? raw.id : newId('setlist'),
+    name: typeof raw?.name === 'string' && raw.name.trim() ? raw.name : 'Setlist',
+    songs: Array.isArray(raw?.songs) ? raw!.songs.map(normalizeSong) : [],
+  };
+}
+
+export function createSection(patch: Partial<SetlistSection> = {}): SetlistSection {
+  return normalizeSection({ name: 'Verse', bars: 8, bpm: 100, beats: 4, beatUnit: 4, ...patch, id: newId('section') });
+}
+
+// Accents to show for a section: its own, else the starts of the signature's first grouping, else the downbeat
+export function sectionAccents(section: SetlistSection) {
+  if (section.accents) return section.accents;
+  const groups = groupingPresets(section.beats, section.beatUnit)[0] ?? [section.beats];
+  const accents = new Array(section.beats).fill(false);
+  groups.reduce((at, g) => {
+    accents[at] = true;
+    return at + g;
+  }, 0);
+  return accents;
+}
+
+export function createSong(name = 'New song'): SetlistSong {
+  return { id: newId('song'), name, countInBars: 1, sections: [createSection()] };
+}
+
+export function createSetlist(name = 'New setlist'): Setlist {
+  return { id: newId('setlist'), name, songs: [createSong('Song 1')] };
+}
+
+export function listSetlists(): Setlist[] {
+  return loadList(STORAGE_KEY, normalizeSetlist);
+}
+
+export function saveSetlists(setlists: Setlist[]) {
+  saveJson(STORAGE_KEY, setlists);
+}
+
+export function exportSetlist(setlist: Setlist) {
+  downloadJson({ format: FILE_FORMAT, version: FILE_VERSION, setlist }, `${fileSafeName(setlist.name, 'setlist')}.json`);
+}
+
+// Accepts an exported file or a bare setlist object; always gets a new id so it never replaces one
+export async function importSetlist(file: Blob): Promise<Setlist> {
+  const parsed = await readJsonFile(file);
+  const wrapped = parsed as { format?: unknown; setlist?: unknown } | null;
+  const raw = (wrapped?.format === FILE_FORMAT ? wrapped.setlist : parsed) as Partial<Setlist> | null;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.songs)) throw new Error('This file does not contain a setlist.');
+  return normalizeSetlist({ ...raw, id: newId('setlist') });
+}
+
+export function songBars(song: SetlistSong) {
+  return song.sections.reduce((sum, s) => sum + s.bars, 0);
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+// Count in and play one song of the setlist; playback stops at its end and waits for the next song
+export async function playSong(setlist: Setlist, songIndex: number) {
+  const song = setlist.songs[songIndex];
+  if (!song) return;
+  const myRun = ++run;
+  playback = { setlistId: setlist.id, songIndex, playing: true, played: true, status: null };
+  notify();
+  await playTempoMap(
+    song.sections.map(s => ({ label: s.name, bars: s.bars, bpm: s.bpm, beats: s.beats, beatUnit: s.beatUnit, accents: s.accents })),
+    {
+      countInBars: song.countInBars,
+      onBar: status => {
+        if (myRun !== run || !playback) return;
+        playback = { ...playback, status };
+        notify();
+      },
+      onEnd: () => {
+        if (myRun !== run || !playback) return;
+        playback = { ...playback, playing: false, status: null };
+        notify();
+      },
+    }
+  );
+}
+
+// Select the song the next press will start
+export function cueSong(setlist: Setlist, songIndex: number) {
+  if (playback?.playing) stopSetlist();
+  playback = { setlistId: setlist.id, songIndex, playing: false, played: false, status: null };
+  notify();
+}
+
+// Start the cued song, or the one after the current one; past the last song everything stops
+export function nextSong(setlist: Setlist) {
+  const cur = playback?.setlistId === setlist.id ? playback : null;
+  const next = !cur ? 0 : cur.played ? cur.songIndex + 1 : cur.songIndex;
+  if (next >= setlist.songs.length) {
+    stopSetlist();
+    return;
+  }
+  void playSong(setlist, next);
+}
+
+export function stopSetlist() {
+  run++;
+  stop();
+  if (playback) {
+    playback = { ...playback, playing: false, status: null };
+    notify();
+  }
+}
+
+export function getSetlistPlayback() {
+  return playback ? { ...playback } : null;
+}
+
+// Called when a song is cued, starts, moves on a bar or ends
+export function subscribeSetlist(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// The panel registers what "next song" means for the setlist on screen
+export function setNextSongHandler(fn: (() => void) | null) {
+  setControlHandler('nextSong', fn);
+}
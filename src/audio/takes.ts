@@ -0,0 +1,126 @@
+import * as Tone from 'tone';
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+import { encodeWav, WavBitDepth } from '../lib/wav';
+
+// A live recording as the browser's MediaRecorder encoded it (WebM/Ogg),
+// with a non-destructive trim and a coarse waveform for the take list
+export type Take = {
+  id: string;
+  name: string;
+  blob: Blob;
+  duration: number; // seconds, untrimmed
+  trimStart: number; // seconds
+  trimEnd: number; // seconds
+  withClick: boolean;
+  peaks: number[]; // 0..1 per bucket across the whole take
+  createdAt: number;
+};
+
+const STORE = 'takes';
+export const TAKE_PEAK_BUCKETS = 480;
+
+// Largest absolute sample per bucket over all channels
+export function waveformPeaks(buffer: AudioBuffer, buckets = TAKE_PEAK_BUCKETS) {
+  const peaks = new Array<number>(buckets).fill(0);
+  const size = buffer.length / buckets;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let b = 0; b < buckets; b++) {
+      const end = Math.min(data.length, Math.floor((b + 1) * size));
+      for (let i = Math.floor(b * size); i < end; i++) {
+        const v = Math.abs(data[i]);
+        if (v > peaks[b]) peaks[b] = v;
+      }
+    }
+  }
+  return peaks.map(p => Math.min(1, Math.round(p * 1000) / 1000));
+}
+
+export async function decodeTake(take: Take): Promise<AudioBuffer> {
+  const data = await take.blob.arrayBuffer();
+  try {
+    return await Tone.getContext().decodeAudioData(data);
+  } catch {
+    throw new Error(`Could not decode "${take.name}"`);
+  }
+}
+
+export function listTakes() {
+  return idbGetAll<Take>(STORE).then(all => all.filter(t => t?.id && t.blob).sort((a, b) => b.createdAt - a.createdAt));
+}
+
+export async function saveTake(take: Take) {
+  await idbPut(STORE, take.id, take);
+  return take;
+}
+
+export function deleteTake(id: string) {
+  return idbDelete(STORE, id);
+}
+
+// Store a fresh recording; decodes it once for its length and waveform
+export async function createTake(blob: Blob, withClick: boolean, name: string): Promise<Take> {
+  const draft: Take = {
+    id: `take-${Date.now().toString(36)}`,
+    name,
+    blob,
+    duration: 0,
+    trimStart: 0,
+    trimEnd: 0,
+    withClick,
+    peaks: [],
+    createdAt: Date.now(),
+  };
+  const buffer = await decodeTake(draft);
+  return saveTake({ ...draft, duration: buffer.duration, trimEnd: buffer.duration, peaks: waveformPeaks(buffer) });
+}
+
+function trimmedChannels(buffer: AudioBuffer, take: Take) {
+  const start = Math.max(0, Math.floor(take.trimStart * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(take.trimEnd * buffer.sampleRate));
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice(start, Math.max(start, end)));
+}
+
+export function isTrimmed(take: Take) {
+  return take.trimStart > 0 || take.trimEnd < take.duration;
+}
+
+export async function takeToWav(take: Take, bitDepth: WavBitDepth = 16) {
+  const buffer = await decodeTake(take);
+  return new Blob([encodeWav(trimmedChannels(buffer, take), buffer.sampleRate, bitDepth)], { type: 'audio/wav' });
+}
+
+// File extension for the recorder's own format, e.g. "webm" or "ogg"
+export function takeExtension(take: Take) {
+  const sub = take.blob.type.split(';')[0].split('/')[1];
+  return sub === 'ogg' || sub === 'mp4' ? sub : 'webm';
+}
+
+// The recording in its compressed format. MediaRecorder output cannot be cut
+// in place, so a trimmed take is played through a new recorder (in real time).
+export async function takeToCompressed(take: Take): Promise<Blob> {
+  if (!isTrimmed(take)) return take.blob;
+  const decoded = await decodeTake(take);
+  const ctx = new AudioContext({ sampleRate: decoded.sampleRate });
+  try {
+    const channels = trimmedChannels(decoded, take);
+    const buffer = ctx.createBuffer(channels.length, channels[0].length || 1, decoded.sampleRate);
+    channels.forEach((data, c) => buffer.copyToChannel(data, c));
+    const dest = ctx.createMediaStreamDestination();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(dest);
+    const type = take.blob.type.split(';')[0];
+    const recorder = new MediaRecorder(dest.stream, MediaRecorder.isTypeSupported(type) ? { mimeType: type } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => chunks.push(e.data);
+    const stopped = new Promise<void>(resolve => (recorder.onstop = () => resolve()));
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: recorder.mimeType || take.blob.type });
+  } finally {
+    void ctx.close();
+  }
+}
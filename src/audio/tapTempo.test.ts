@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('./metronome', () => ({ MIN_BPM: 30, MAX_BPM: 300, setBpm: vi.fn() }));
+vi.mock('./controlBindings', () => ({ setControlHandler: vi.fn() }));
+
+import { setBpm } from './metronome';
+import { setTapCount, tap, TAP_RESET_MS } from './tapTempo';
+
+describe('tap tempo', () => {
+  let now = 0;
+
+  // Each test starts a fresh count
+  function taps(...gaps: number[]) {
+    now += TAP_RESET_MS * 2;
+    tap(now);
+    return gaps.map(gap => tap((now += gap)));
+  }
+
+  beforeEach(() => {
+    vi.mocked(setBpm).mockClear();
+  });
+
+  it('follows the mean of the taps', () => {
+    setTapCount(4);
+    expect(taps(500, 500, 500)).toEqual([120, 120, 120]);
+    expect(setBpm).toHaveBeenLastCalledWith(120);
+  });
+
+  it('leaves a stray interval out of the mean', () => {
+    setTapCount(5);
+    expect(taps(500, 500, 250, 500).pop()).toBe(120);
+  });
+
+  it('uses the median when every interval is an outlier', () => {
+    setTapCount(3);
+    expect(taps(500, 1000).pop()).toBe(80);
+    setTapCount(5);
+    expect(taps(500, 500, 1000, 1000).pop()).toBe(80);
+    vi.mocked(setBpm).mock.calls.forEach(([bpm]) => expect(Number.isFinite(bpm)).toBe(true));
+  });
+});
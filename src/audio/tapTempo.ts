@@ -0,0 +1,95 @@
+import { setControlHandler } from './controlBindings';
+import { MAX_BPM, MIN_BPM, setBpm } from './metronome';
+import { loadJson, saveJson } from '../lib/storage';
+
+// Tap tempo for the metronome. Taps come from the Tap button, the keyboard
+// shortcut, or the MIDI note/CC bound to the 'tap' control (a spare pad works well).
+export type TapSettings = {
+  taps: number; // how many of the latest taps are averaged
+};
+
+export const TAP_SHORTCUT = 't';
+export const MIN_TAPS = 2;
+export const MAX_TAPS = 8;
+
+const STORAGE_KEY = 'tap_tempo_v1';
+// A pause this long starts a new count; longer than one beat at MIN_BPM
+export const TAP_RESET_MS = 2500;
+// Intervals further than this from the median are stray hits, not the tempo
+const OUTLIER_RATIO = 0.25;
+
+let settings: TapSettings = loadSettings();
+let times: number[] = [];
+let lastBpm: number | null = null;
+const listeners = new Set<() => void>();
+
+function loadSettings(): TapSettings {
+  const parsed = loadJson(STORAGE_KEY) as Partial<TapSettings> | null;
+  return { taps: clampTaps(parsed?.taps ?? 4) };
+}
+
+function saveSettings() {
+  saveJson(STORAGE_KEY, settings);
+}
+
+function notify() {
+  listeners.forEach(fn => fn());
+}
+
+function clampTaps(n: number) {
+  return Math.max(MIN_TAPS, Math.min(MAX_TAPS, Math.round(Number(n) || MIN_TAPS)));
+}
+
+// Mean of the intervals close to the median, so one flam or missed hit does not skew the tempo.
+// With an even count the median can sit between two clusters (500, 1000 ms) and keep nothing; then it is the tempo.
+function tempoFromIntervals(intervals: number[]) {
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const kept = intervals.filter(i => Math.abs(i - median) <= median * OUTLIER_RATIO);
+  const mean = kept.length ? kept.reduce((a, b) => a + b, 0) / kept.length : median;
+  return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(60000 / mean)));
+}
+
+// Register one tap; from the second tap on the metronome follows the average
+export function tap(at = performance.now()) {
+  if (times.length && at - times[times.length - 1] > TAP_RESET_MS) times = [];
+  times.push(at);
+  // N taps give N - 1 intervals
+  if (times.length > settings.taps) times = times.slice(-settings.taps);
+  if (times.length >= 2) {
+    const intervals = times.slice(1).map((t, i) => t - times[i]);
+    const bpm = tempoFromIntervals(intervals);
+    if (Number.isFinite(bpm)) {
+      lastBpm = bpm;
+      setBpm(bpm);
+    }
+  }
+  notify();
+  return lastBpm;
+}
+
+export function getTapState() {
+  const stale = !times.length || performance.now() - times[times.length - 1] > TAP_RESET_MS;
+  return {
+    count: stale ? 0 : times.length,
+    bpm: lastBpm,
+    settings: { ...settings },
+  };
+}
+
+export function setTapCount(n: number) {
+  settings = { ...settings, taps: clampTaps(n) };
+  saveSettings();
+  notify();
+}
+
+// Called on every tap and when the tap count changes
+export function subscribeTap(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+setControlHandler('tap', () => tap());
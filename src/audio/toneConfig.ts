@@ -8,3 +8,19 @@ export function configureLowLatencyTone() {
   const context = Tone.getContext();
   context.lookAhead = 0.03;
 }
+
+// Resume (or recreate) the shared context; browsers keep it locked until a user gesture
+export async function ensureAudioStarted() {
+  configureLowLatencyTone();
+  let ctx = Tone.getContext();
+  if (ctx.state === 'closed') {
+    const next = new Tone.Context({ latencyHint: 'interactive' });
+    Tone.setContext(next);
+    ctx = Tone.getContext();
+  }
+  if (ctx.state === 'running') return true;
+  try {
+    await Tone.start();
+  } catch {}
+  return Tone.getContext().state === 'running';
+}
@@ -0,0 +1,62 @@
+import * as Tone from 'tone';
+
+// Clock events from the metronome's Transport for any number of listeners.
+// `on` listeners run in the scheduler, ahead of the sound, with the exact audio
+// time: schedule audio there. `onDraw` listeners run when the event is heard
+// (via Tone.Draw): update visuals there.
+export type TransportEventMap = {
+  start: { time: number };
+  stop: { time: number };
+  bar: { time: number; bar: number; muted: boolean };
+  beat: { time: number; beat: number; bar: number; muted: boolean };
+  // The pulses between beats; pulse 1..pulses-1 (pulse 0 is the beat itself)
+  subdivision: { time: number; beat: number; bar: number; pulse: number; pulses: number; muted: boolean };
+  layer: { time: number; layer: number; pulse: number; pulses: number };
+};
+
+export type TransportEventType = keyof TransportEventMap;
+export type TransportListener<K extends TransportEventType> = (event: TransportEventMap[K]) => void;
+
+type Listeners = { [K in TransportEventType]: Set<TransportListener<K>> };
+
+function emptyListeners(): Listeners {
+  return { start: new Set(), stop: new Set(), bar: new Set(), beat: new Set(), subdivision: new Set(), layer: new Set() };
+}
+
+const audioListeners = emptyListeners();
+const drawListeners = emptyListeners();
+
+// Returns the unsubscribe function
+export function on<K extends TransportEventType>(type: K, fn: TransportListener<K>) {
+  const set = audioListeners[type] as Set<TransportListener<K>>;
+  set.add(fn);
+  return () => {
+    set.delete(fn);
+  };
+}
+
+export function onDraw<K extends TransportEventType>(type: K, fn: TransportListener<K>) {
+  const set = drawListeners[type] as Set<TransportListener<K>>;
+  set.add(fn);
+  return () => {
+    set.delete(fn);
+  };
+}
+
+// One listener throwing must not silence the others or break the scheduler
+function call<K extends TransportEventType>(set: Set<TransportListener<K>>, event: TransportEventMap[K]) {
+  set.forEach(fn => {
+    try {
+      fn(event);
+    } catch (e) {
+      console.error(e);
+    }
+  });
+}
+
+// For the metronome: announce an event at its scheduled audio time
+export function emit<K extends TransportEventType>(type: K, event: TransportEventMap[K]) {
+  call(audioListeners[type] as Set<TransportListener<K>>, event);
+  const draw = drawListeners[type] as Set<TransportListener<K>>;
+  if (draw.size) Tone.Draw.schedule(() => call(draw, event), event.time);
+}
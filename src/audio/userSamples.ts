@@ -0,0 +1,57 @@
+import * as Tone from 'tone';
+import type { DrumPad } from './sampler';
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+
+// One-shots the user dropped onto a pad, stored per kit as the original file
+export type UserSample = {
+  kitId: string;
+  pad: DrumPad;
+  name: string;
+  blob: Blob;
+  addedAt: number;
+};
+
+const STORE = 'user_samples';
+const SAMPLE_EXTENSIONS = ['wav', 'mp3', 'ogg'];
+const SAMPLE_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mpeg', 'audio/mp3', 'audio/ogg', 'application/ogg'];
+
+// Value for <input accept> and a hint for drop targets
+export const USER_SAMPLE_ACCEPT = [...SAMPLE_EXTENSIONS.map(ext => `.${ext}`), ...SAMPLE_TYPES].join(',');
+
+function sampleKey(kitId: string, pad: DrumPad) {
+  return `${kitId}:${pad}`;
+}
+
+export function isSupportedSampleFile(file: File) {
+  const ext = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return SAMPLE_EXTENSIONS.includes(ext) || SAMPLE_TYPES.includes(file.type);
+}
+
+// Decoding works on a suspended context, so samples can be assigned before audio is unlocked
+export async function decodeSampleFile(file: Blob): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  try {
+    return await Tone.getContext().decodeAudioData(data);
+  } catch {
+    throw new Error('Could not decode this file. Use a WAV, MP3 or OGG one-shot.');
+  }
+}
+
+export async function loadUserSamples(kitId: string): Promise<Partial<Record<DrumPad, UserSample>>> {
+  const all = await idbGetAll<UserSample>(STORE);
+  const out: Partial<Record<DrumPad, UserSample>> = {};
+  all.filter(s => s?.kitId === kitId).forEach(s => {
+    out[s.pad] = s;
+  });
+  return out;
+}
+
+export async function saveUserSample(kitId: string, pad: DrumPad, file: File): Promise<UserSample> {
+  const sample: UserSample = { kitId, pad, name: file.name, blob: file, addedAt: Date.now() };
+  await idbPut(STORE, sampleKey(kitId, pad), sample);
+  return sample;
+}
+
+export function deleteUserSample(kitId: string, pad: DrumPad) {
+  return idbDelete(STORE, sampleKey(kitId, pad));
+}
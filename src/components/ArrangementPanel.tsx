@@ -0,0 +1,404 @@
+import { useEffect, useRef, useState } from 'react';
+import * as M from '../audio/metronome';
+import {
+  Arrangement,
+  ArrangementSection,
+  createArrangement,
+  createArrangementSection,
+  exportArrangement,
+  exportArrangementWav,
+  getArrangementPlayback,
+  importArrangement,
+  listArrangements,
+  MAX_COUNT_IN_BARS,
+  MAX_REPEATS,
+  playArrangement,
+  saveArrangements,
+  sectionBars,
+  stopArrangement,
+  subscribeArrangement,
+} from '../audio/arrangement';
+import { listPatterns, savePatterns, SequencerPattern, subscribePatterns } from '../audio/sequencer';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+const inputClass =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+type NumberInputProps = {
+  value: number;
+  min: number;
+  max: number;
+  label: string;
+  className?: string;
+  onCommit: (value: number) => void;
+};
+
+// Committed on blur/Enter so typing "120" does not clamp at "1"
+function NumberInput({ value, min, max, label, className = '', onCommit }: NumberInputProps) {
+  return (
+    <input
+      key={value}
+      type="number"
+      min={min}
+      max={max}
+      defaultValue={value}
+      aria-label={label}
+      onBlur={e => {
+        const v = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(v)) onCommit(Math.max(min, Math.min(max, Math.round(v))));
+        else e.target.value = String(value);
+      }}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={`${inputClass} ${className}`}
+    />
+  );
+}
+
+function move<T>(items: T[], from: number, to: number) {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+type SectionRowProps = {
+  index: number;
+  section: ArrangementSection;
+  patterns: SequencerPattern[];
+  current: boolean;
+  onChange: (patch: Partial<ArrangementSection>) => void;
+  onMove: (delta: number) => void;
+  onRemove: () => void;
+  count: number;
+};
+
+function SectionRow({ index, section, patterns, current, count, onChange, onMove, onRemove }: SectionRowProps) {
+  const pattern = patterns.find(p => p.id === section.patternId) ?? null;
+  return (
+    <div
+      className={
+        'flex flex-wrap items-center gap-2 rounded-xl border px-3 py-2 ' +
+        (current ? 'border-accent/70 bg-accent/10' : 'border-border/70 bg-background/70') +
+        (section.muted ? ' opacity-70' : '')
+      }
+    >
+      <span className="w-5 text-xs tabular-nums text-muted-foreground">{index + 1}</span>
+      <input value={section.name} aria-label="Section name" onChange={e => onChange({ name: e.target.value })} className={`${inputClass} w-24`} />
+      <select
+        value={section.patternId ?? ''}
+        aria-label="Pattern"
+        onChange={e => onChange({ patternId: e.target.value || null })}
+        className={`${inputClass} max-w-[9rem]`}
+      >
+        <option value="">No pattern</option>
+        {patterns.map(p => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <span className="text-xs text-muted-foreground">×</span>
+      <NumberInput value={section.repeats} min={1} max={MAX_REPEATS} label="Repeats" className="w-14" onCommit={repeats => onChange({ repeats })} />
+      <span className="text-xs tabular-nums text-muted-foreground">= {sectionBars(section, pattern)} bars at</span>
+      <NumberInput value={section.bpm} min={M.MIN_BPM} max={M.MAX_BPM} label="BPM" className="w-16" onCommit={bpm => onChange({ bpm })} />
+      <span className="text-xs text-muted-foreground">BPM in</span>
+      <select value={section.beats} aria-label="Beats per bar" onChange={e => onChange({ beats: Number(e.target.value) })} className={inputClass}>
+        {new Array(M.MAX_BEATS_PER_BAR).fill(0).map((_, i) => (
+          <option key={i + 1} value={i + 1}>
+            {i + 1}
+          </option>
+        ))}
+      </select>
+      <span className="text-muted-foreground">/</span>
+      <select
+        value={section.beatUnit}
+        aria-label="Beat unit"
+        onChange={e => onChange({ beatUnit: Number(e.target.value) as M.BeatUnit })}
+        className={inputClass}
+      >
+        {M.BEAT_UNITS.map(n => (
+          <option key={n} value={n}>
+            {n}
+          </option>
+        ))}
+      </select>
+      <div className="ml-auto flex items-center gap-1">
+        <Button
+          variant={section.muted ? 'secondary' : 'ghost'}
+          size="xs"
+          title="Keep the click, silence the drums"
+          onClick={() => onChange({ muted: !section.muted })}
+        >
+          {section.muted ? 'Muted' : 'Mute'}
+        </Button>
+        <Button variant="ghost" size="xs" disabled={index === 0} onClick={() => onMove(-1)}>
+          Up
+        </Button>
+        <Button variant="ghost" size="xs" disabled={index === count - 1} onClick={() => onMove(1)}>
+          Down
+        </Button>
+        <Button variant="ghost" size="xs" onClick={onRemove}>
+          Remove
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function ArrangementPanel() {
+  const [arrangements, setArrangements] = useState<Arrangement[]>(() => listArrangements());
+  const [selectedId, setSelectedId] = useState<string | null>(() => listArrangements()[0]?.id ?? null);
+  const [patterns, setPatterns] = useState<SequencerPattern[]>(() => listPatterns());
+  const [playback, setPlayback] = useState(() => getArrangementPlayback());
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [loop, setLoop] = useState(false);
+  const [rendering, setRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+
+  const arrangement = arrangements.find(a => a.id === selectedId) ?? null;
+  const last = arrangement ? arrangement.sections.length - 1 : 0;
+  // The whole arrangement unless a range was picked; kept inside the sections that exist
+  const from = Math.min(range?.[0] ?? 0, last);
+  const to = Math.max(from, Math.min(range?.[1] ?? last, last));
+
+  useEffect(() => {
+    const unsubscribe = [
+      subscribeArrangement(() => setPlayback(getArrangementPlayback())),
+      subscribePatterns(() => setPatterns(listPatterns())),
+    ];
+    return () => unsubscribe.forEach(fn => fn());
+  }, []);
+
+  const persist = (next: Arrangement[]) => {
+    setArrangements(next);
+    saveArrangements(next);
+  };
+
+  const updateArrangement = (next: Arrangement) => persist(arrangements.map(a => (a.id === next.id ? next : a)));
+
+  const updateSection = (sectionId: string, patch: Partial<ArrangementSection>) => {
+    if (!arrangement) return;
+    updateArrangement({ ...arrangement, sections: arrangement.sections.map(s => (s.id === sectionId ? { ...s, ...patch } : s)) });
+  };
+
+  const addArrangement = () => {
+    const created = createArrangement(`Arrangement ${arrangements.length + 1}`);
+    persist([...arrangements, created]);
+    setSelectedId(created.id);
+    setRange(null);
+  };
+
+  const removeArrangement = () => {
+    if (!arrangement || !window.confirm(`Delete "${arrangement.name}"?`)) return;
+    if (playback?.arrangementId === arrangement.id && playback.playing) stopArrangement();
+    const next = arrangements.filter(a => a.id !== arrangement.id);
+    persist(next);
+    setSelectedId(next[0]?.id ?? null);
+    setRange(null);
+  };
+
+  const addSection = () => {
+    if (!arrangement) return;
+    // Carry on where the last section left off
+    const prev = arrangement.sections[arrangement.sections.length - 1];
+    const added = createArrangementSection(
+      prev
+        ? { name: 'Chorus', patternId: prev.patternId, bpm: prev.bpm, beats: prev.beats, beatUnit: prev.beatUnit }
+        : { name: 'Intro', repeats: 1, patternId: patterns[0]?.id ?? null }
+    );
+    updateArrangement({ ...arrangement, sections: [...arrangement.sections, added] });
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const imported = await importArrangement(file);
+      if (imported.patterns.length) savePatterns([...listPatterns(), ...imported.patterns]);
+      persist([...arrangements, imported.arrangement]);
+      setSelectedId(imported.arrangement.id);
+      setRange(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportWav = async () => {
+    if (!arrangement) return;
+    setError(null);
+    setRendering(true);
+    try {
+      await exportArrangementWav(arrangement, patterns);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const active = playback && arrangement && playback.arrangementId === arrangement.id && playback.playing ? playback : null;
+  const status = active?.status;
+  const currentIndex = status && !status.countIn ? active!.from + status.sectionIndex : null;
+
+  return (
+    <Card className="relative overflow-hidden bg-card/85 backdrop-blur">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-display text-3xl">Song mode</CardTitle>
+            <CardDescription>Chain patterns into an arrangement, with tempo and meter per section.</CardDescription>
+          </div>
+          {active && status && (
+            <Badge variant="accent">{status.countIn ? `Count-in ${status.bar}/${status.bars}` : `${status.label} ${status.bar}/${status.bars}`}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId ?? ''}
+            aria-label="Arrangement"
+            onChange={e => {
+              setSelectedId(e.target.value || null);
+              setRange(null);
+            }}
+            className={`${inputClass} min-w-[8rem] flex-1`}
+          >
+            {arrangements.length === 0 && <option value="">No arrangements yet</option>}
+            {arrangements.map(a => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="xs" onClick={addArrangement}>
+            New
+          </Button>
+          <Button variant="ghost" size="xs" onClick={() => importRef.current?.click()}>
+            Import…
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!arrangement} onClick={() => arrangement && exportArrangement(arrangement, patterns)}>
+            Export
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!arrangement?.sections.length || rendering} onClick={() => void exportWav()}>
+            {rendering ? 'Rendering…' : 'Export WAV'}
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!arrangement} onClick={removeArrangement}>
+            Delete
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+
+        {arrangement && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={arrangement.name}
+                aria-label="Arrangement name"
+                onChange={e => updateArrangement({ ...arrangement, name: e.target.value })}
+                className={`${inputClass} min-w-[8rem] flex-1 text-sm`}
+              />
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                Count-in
+                <select
+                  value={arrangement.countInBars}
+                  aria-label="Count-in bars"
+                  onChange={e => updateArrangement({ ...arrangement, countInBars: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {new Array(MAX_COUNT_IN_BARS + 1).fill(0).map((_, i) => (
+                    <option key={i} value={i}>
+                      {i === 0 ? 'None' : `${i} bar${i === 1 ? '' : 's'}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant={active ? 'destructive' : 'accent'}
+                size="sm"
+                disabled={!arrangement.sections.length}
+                onClick={() => (active ? stopArrangement() : void playArrangement(arrangement, patterns, { from, to, loop }))}
+              >
+                {active ? 'Stop' : 'Play'}
+              </Button>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                Sections
+                <select
+                  value={from}
+                  aria-label="First section"
+                  disabled={!arrangement.sections.length}
+                  onChange={e => setRange([Number(e.target.value), Math.max(Number(e.target.value), to)])}
+                  className={inputClass}
+                >
+                  {arrangement.sections.map((s, i) => (
+                    <option key={s.id} value={i}>
+                      {i + 1}
+                    </option>
+                  ))}
+                </select>
+                to
+                <select
+                  value={to}
+                  aria-label="Last section"
+                  disabled={!arrangement.sections.length}
+                  onChange={e => setRange([Math.min(from, Number(e.target.value)), Number(e.target.value)])}
+                  className={inputClass}
+                >
+                  {arrangement.sections.map((s, i) => (
+                    <option key={s.id} value={i}>
+                      {i + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input type="checkbox" checked={loop} onChange={e => setLoop(e.target.checked)} className="h-4 w-4 accent-[hsl(var(--accent))]" />
+                Loop
+              </label>
+              {active && <span className="text-xs text-muted-foreground">Edits apply from the next Play</span>}
+            </div>
+
+            <div className="space-y-2">
+              {arrangement.sections.map((section, index) => (
+                <SectionRow
+                  key={section.id}
+                  index={index}
+                  count={arrangement.sections.length}
+                  section={section}
+                  patterns={patterns}
+                  current={currentIndex === index}
+                  onChange={patch => updateSection(section.id, patch)}
+                  onMove={delta => updateArrangement({ ...arrangement, sections: move(arrangement.sections, index, index + delta) })}
+                  onRemove={() => updateArrangement({ ...arrangement, sections: arrangement.sections.filter(s => s.id !== section.id) })}
+                />
+              ))}
+              <Button variant="outline" size="xs" onClick={addSection}>
+                Add section
+              </Button>
+              {!patterns.length && <p className="text-xs text-muted-foreground">Make a pattern in the Step sequencer first.</p>}
+            </div>
+          </>
+        )}
+        {error && <div className="text-sm text-destructive">{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
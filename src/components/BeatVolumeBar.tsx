@@ -47,7 +47,7 @@ export default function BeatVolumeBar({ value, current = false, onChange, height
           'relative w-8 rounded-md bg-background/80 border border-border/70 cursor-pointer select-none overflow-hidden shadow-inner ' +
           (current ? 'ring-2 ring-accent/50' : '')
         }
-        style={{ height, touchAction: 'none' as any }}
+        style={{ height, touchAction: 'none' }}
         onPointerDown={(e) => {
           dragging.current = true;
           (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
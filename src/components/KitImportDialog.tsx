@@ -0,0 +1,220 @@
+import { useMemo, useRef, useState } from 'react';
+import { listGmPads, DrumPad } from '../audio/sampler';
+import { buildImportManifest, ImportMapping, importKit, KitImport, readKitFiles, suggestMapping } from '../audio/kitImport';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+
+type Props = {
+  onClose: () => void;
+  onImported: (kitId: string) => void;
+};
+
+function layerSummary(count: number) {
+  return count === 1 ? '1 layer' : `${count} layers`;
+}
+
+// Pick a Hydrogen or SFZ kit, review how its instruments land on our pads, then save it as a kit
+export default function KitImportDialog({ onClose, onImported }: Props) {
+  const pads = useMemo(() => listGmPads(), []);
+  const [kit, setKit] = useState<KitImport | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>([]);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const folderRef = useRef<HTMLInputElement | null>(null);
+
+  const readFiles = async (files: File[]) => {
+    if (!files.length) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const next = await readKitFiles(files);
+      setKit(next);
+      setMapping(suggestMapping(next));
+      setName(next.name);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const mappedCount = mapping.filter(Boolean).length;
+  const duplicates = useMemo(() => {
+    const seen = new Set<DrumPad>();
+    const dupes = new Set<number>();
+    mapping.forEach((pad, i) => {
+      if (!pad) return;
+      if (seen.has(pad)) dupes.add(i);
+      seen.add(pad);
+    });
+    return dupes;
+  }, [mapping]);
+  const chokeWarnings = useMemo(() => {
+    if (!kit || !mappedCount) return [];
+    try {
+      return buildImportManifest(kit, mapping, name).warnings;
+    } catch {
+      return [];
+    }
+  }, [kit, mapping, mappedCount, name]);
+
+  const save = async () => {
+    if (!kit) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const id = await importKit(kit, mapping, name);
+      onImported(id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-2xl flex-col rounded-xl border border-border/80 bg-popover p-4 text-popover-foreground shadow-lg">
+        <div className="mb-3 flex items-start justify-between">
+          <div>
+            <div className="text-sm text-muted-foreground">Import kit</div>
+            <div className="text-lg font-semibold">{kit ? 'Review instruments' : 'Hydrogen or SFZ'}</div>
+          </div>
+          <button className="text-muted-foreground hover:text-foreground" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <input
+          ref={fileRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={e => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            void readFiles(files);
+          }}
+        />
+        <input
+          ref={folderRef}
+          type="file"
+          className="hidden"
+          // Non-standard but supported by every browser we target
+          {...({ webkitdirectory: '' } as Record<string, string>)}
+          onChange={e => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            void readFiles(files);
+          }}
+        />
+
+        {!kit && (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Pick a Hydrogen <code>.h2drumkit</code> archive, or a <code>drumkit.xml</code> / <code>.sfz</code> file together with its
+              samples (or the folder that holds them). Instruments are matched to pads by their GM note.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="accent" size="sm" disabled={busy} onClick={() => fileRef.current?.click()}>
+                Choose files…
+              </Button>
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => folderRef.current?.click()}>
+                Choose folder…
+              </Button>
+            </div>
+            {busy && <div className="text-muted-foreground">Reading kit…</div>}
+          </div>
+        )}
+
+        {kit && (
+          <>
+            <div className="mb-3 flex flex-wrap items-center gap-2">
+              <label className="flex flex-1 items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Name</span>
+                <input
+                  value={name}
+                  onChange={e => setName(e.target.value)}
+                  className="h-8 flex-1 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                />
+              </label>
+              <Badge variant="outline">{kit.format === 'hydrogen' ? 'Hydrogen' : 'SFZ'}</Badge>
+              <Badge variant={mappedCount ? 'accent' : 'outline'}>
+                {mappedCount} of {kit.instruments.length} mapped
+              </Badge>
+            </div>
+            <div className="min-h-0 flex-1 space-y-1 overflow-y-auto pr-1">
+              {kit.instruments.map((inst, i) => {
+                const pad = mapping[i];
+                return (
+                  <div
+                    key={i}
+                    className={
+                      'grid grid-cols-[1fr_auto_9rem] items-center gap-3 rounded-lg border px-3 py-2 text-sm ' +
+                      (pad ? 'border-border/70 bg-background/70' : 'border-dashed border-primary/60 bg-primary/5')
+                    }
+                  >
+                    <div className="min-w-0">
+                      <div className="truncate font-medium" title={inst.name}>{inst.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {inst.note != null ? `Note ${inst.note}` : 'No note'} · {layerSummary(inst.layers.length)}
+                        {inst.chokeGroup != null && ' · choke'}
+                      </div>
+                    </div>
+                    <div>
+                      {duplicates.has(i) && <Badge variant="outline">Duplicate</Badge>}
+                      {!inst.layers.length && <Badge variant="outline">No samples</Badge>}
+                    </div>
+                    <select
+                      value={pad ?? ''}
+                      disabled={!inst.layers.length}
+                      aria-label={`Pad for ${inst.name}`}
+                      onChange={e => {
+                        const next = [...mapping];
+                        next[i] = (e.target.value || null) as DrumPad | null;
+                        setMapping(next);
+                      }}
+                      className="h-8 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                      <option value="">Skip</option>
+                      {pads.map(p => (
+                        <option key={p.pad} value={p.pad}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+            {(kit.warnings.length > 0 || chokeWarnings.length > 0) && (
+              <details className="mt-3 text-xs text-muted-foreground">
+                <summary className="cursor-pointer">{kit.warnings.length + chokeWarnings.length} warning(s)</summary>
+                <ul className="mt-1 max-h-24 list-disc space-y-0.5 overflow-y-auto pl-5">
+                  {[...kit.warnings, ...chokeWarnings].map((w, i) => (
+                    <li key={i}>{w}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            <p className="mt-2 text-xs text-muted-foreground">
+              Unmapped instruments are left out. When several instruments share a pad, the first one is used.
+            </p>
+            <div className="mt-3 flex justify-end gap-2">
+              <Button variant="ghost" size="sm" disabled={busy} onClick={() => setKit(null)}>
+                Back
+              </Button>
+              <Button variant="accent" size="sm" disabled={busy || !mappedCount} onClick={save}>
+                {busy ? 'Importing…' : 'Import kit'}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {error && <div className="mt-3 text-sm text-destructive">{error}</div>}
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,328 @@
-import { useEffect, useMemo, useState } from 'react';
+import { type CSSProperties, useEffect, useMemo, useRef, useState } from 'react';
 import * as M from '../audio/metronome';
+import * as Tap from '../audio/tapTempo';
+import * as TE from '../audio/transportEvents';
+import { USER_SAMPLE_ACCEPT } from '../audio/userSamples';
 import BeatVolumeBar from './BeatVolumeBar';
+import MidiClockSync from './MidiClockSync';
+import MidiControlBinding from './MidiControlBinding';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 
 // BeatVolumeBar moved to its own file
 
+// The .slider track fills up to the --val custom property
+function sliderFill(percent: number): CSSProperties & Record<'--val', string> {
+  return { '--val': `${percent}%` };
+}
+
+const SUBDIVISION_LABELS: Record<M.Subdivision, string> = {
+  quarter: 'Quarters',
+  eighth: '8ths',
+  eighthTriplet: '8th triplets',
+  sixteenth: '16ths',
+  quintuplet: 'Quintuplets',
+  sextuplet: 'Sextuplets',
+};
+
+const LEVEL_LABELS: Record<M.SubdivisionLevel, string> = {
+  eighth: '8th (&)',
+  triplet: 'Triplet',
+  sixteenth: '16th (e, a)',
+  quintuplet: 'Quintuplet',
+  sextuplet: 'Sextuplet',
+};
+
+const CLICK_SOUND_LABELS: Record<M.ClickSound, string> = {
+  wood: 'Wood',
+  tick: 'Tick',
+  beep: 'Beep',
+  soft: 'Soft',
+};
+
+const CLICK_PRESET_LABELS: Record<M.ClickPreset, string> = {
+  membrane: 'Classic thump',
+  woodblock: 'Woodblock',
+  cowbell: 'Cowbell',
+  rimshot: 'Rimshot',
+  hihat: 'Hi-hat',
+  beep: 'Beep',
+  count: 'Spoken count',
+  custom: 'Custom sample',
+};
+
+const CLICK_SLOTS: { slot: M.ClickSlot; label: string }[] = [
+  { slot: 'accent', label: 'Accent' },
+  { slot: 'normal', label: 'Normal' },
+];
+
+function formatClickDb(db: number) {
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+const TRAINER_FIELDS: { key: 'startBpm' | 'targetBpm' | 'step' | 'everyBars'; label: string; unit: string; min: number; max: number }[] = [
+  { key: 'startBpm', label: 'Start', unit: 'BPM', min: M.MIN_BPM, max: M.MAX_BPM },
+  { key: 'targetBpm', label: 'Target', unit: 'BPM', min: M.MIN_BPM, max: M.MAX_BPM },
+  { key: 'step', label: 'Step', unit: 'BPM', min: 1, max: 50 },
+  { key: 'everyBars', label: 'Every', unit: 'bars', min: 1, max: 64 },
+];
+
+const GAP_FIELDS: { key: 'playBars' | 'muteBars' | 'growBy' | 'maxMuteBars'; label: string; unit: string; min: number; max: number }[] = [
+  { key: 'playBars', label: 'Play', unit: 'bars', min: 1, max: 16 },
+  { key: 'muteBars', label: 'Silent', unit: 'bars', min: 1, max: 16 },
+  { key: 'growBy', label: 'Grow by', unit: 'bars', min: 0, max: 4 },
+  { key: 'maxMuteBars', label: 'Up to', unit: 'bars', min: 1, max: 32 },
+];
+
+// Common ratios as layer pulses : beats in the bar
+const POLY_PRESETS: [number, number][] = [
+  [3, 2],
+  [4, 3],
+  [5, 4],
+  [3, 4],
+  [5, 3],
+  [7, 4],
+];
+
+// One row of evenly spaced pulses across the bar; lanes line up so coinciding pulses sit on top of each other
+function PulseLane({ count, active }: { count: number; active: number | null }) {
+  return (
+    <div className="relative h-5 flex-1">
+      <div className="absolute inset-x-0 top-1/2 h-px bg-border" />
+      {new Array(count).fill(0).map((_, k) => (
+        <span
+          key={k}
+          className={
+            'absolute top-1/2 -translate-y-1/2 rounded-full transition-colors ' +
+            (k === 0 ? 'h-3 w-3 ' : 'h-2.5 w-2.5 ') +
+            (k === active ? 'bg-accent' : 'bg-muted-foreground/40')
+          }
+          style={{ left: `calc(${(k / count) * 100}% + ${k === 0 ? 0 : -5}px)` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+type NumberFieldProps = {
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  value: number;
+  onCommit: (value: number) => void;
+};
+
+// Committed on blur/Enter so typing "120" does not clamp at "1"
+function NumberField({ label, unit, min, max, value, onCommit }: NumberFieldProps) {
+  return (
+    <label className="space-y-1 text-xs text-muted-foreground">
+      <span>
+        {label} <span className="opacity-70">({unit})</span>
+      </span>
+      <input
+        key={value}
+        type="number"
+        min={min}
+        max={max}
+        defaultValue={value}
+        onBlur={e => {
+          const v = Number(e.target.value);
+          if (e.target.value !== '' && Number.isFinite(v)) onCommit(v);
+          else e.target.value = String(value);
+        }}
+        onKeyDown={e => {
+          if (e.key === 'Enter') e.currentTarget.blur();
+        }}
+        className="h-8 w-full rounded-md border border-input bg-background px-2 text-sm text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      />
+    </label>
+  );
+}
+
 export default function Metronome() {
   const [bpm, setBpm] = useState(100);
   const [beats, setBeats] = useState(4);
+  const [beatUnit, setBeatUnit] = useState<M.BeatUnit>(4);
+  const [grouping, setGrouping] = useState<number[] | null>(null);
   const [running, setRunning] = useState(false);
   const [beatInBar, setBeatInBar] = useState(0);
   const [accents, setAccents] = useState<boolean[]>([]);
   const [volumes, setVolumes] = useState<number[]>([]); // 0..1 per beat
+  const [pulse, setPulse] = useState(0);
+  const [subdivision, setSubdivision] = useState<M.Subdivision>('quarter');
+  const [levels, setLevels] = useState(() => M.getState().levels);
+  const [trainer, setTrainer] = useState(() => M.getState().trainer);
+  const [trainerStatus, setTrainerStatus] = useState(() => M.getState().trainerStatus);
+  const [gap, setGap] = useState(() => M.getState().gap);
+  const [gapStatus, setGapStatus] = useState(() => M.getState().gapStatus);
+  const [tap, setTap] = useState(() => Tap.getTapState());
+  const [layers, setLayers] = useState(() => M.getState().layers);
+  const [layerPulses, setLayerPulses] = useState<number[]>([]);
+  const [clickPresets, setClickPresets] = useState(() => M.getState().clickPresets);
+  const [clickSamples, setClickSamples] = useState(() => M.getState().clickSamples);
+  const [clickOutput, setClickOutput] = useState(() => M.getState().clickOutput);
+  const [clickError, setClickError] = useState<string | null>(null);
+  const sampleInputs = useRef<Partial<Record<M.ClickSlot, HTMLInputElement | null>>>({});
   useEffect(() => {
     const s = M.getState();
     setBpm(s.bpm);
     setBeats(s.beatsPerBar);
+    setBeatUnit(s.beatUnit);
+    setGrouping(s.grouping);
     setRunning(s.isRunning);
-    if (Array.isArray((s as any).accents)) setAccents((s as any).accents as boolean[]);
-    else setAccents(new Array(s.beatsPerBar).fill(false).map((_, i) => i === 0));
-    if (Array.isArray((s as any).volumes)) setVolumes((s as any).volumes as number[]);
-    else setVolumes(new Array(s.beatsPerBar).fill(1));
-    M.onTick((beatIdx) => setBeatInBar(beatIdx));
-    return () => M.onTick(null);
+    setAccents(s.accents);
+    setVolumes(s.volumes);
+    setSubdivision(s.subdivision);
+    setLevels(s.levels);
+    setTrainer(s.trainer);
+    setGap(s.gap);
+    setLayers(s.layers);
+    const refresh = () => {
+      const next = M.getState();
+      setBpm(next.bpm);
+      setTrainerStatus(next.trainerStatus);
+      setGapStatus(next.gapStatus);
+      return next;
+    };
+    const unsubscribe = [
+      TE.onDraw('beat', ({ beat }) => {
+        setBeatInBar(beat);
+        setPulse(0);
+        // The trainer and tempo maps move the tempo (and signature) on their own
+        const next = refresh();
+        if (beat === 0) {
+          setBeats(next.beatsPerBar);
+          setBeatUnit(next.beatUnit);
+          setGrouping(next.grouping);
+          setAccents(next.accents);
+          setVolumes(next.volumes);
+        }
+      }),
+      TE.onDraw('subdivision', ({ beat, pulse }) => {
+        setBeatInBar(beat);
+        setPulse(pulse);
+      }),
+      TE.onDraw('layer', ({ layer, pulse }) => {
+        setLayerPulses(prev => {
+          const next = [...prev];
+          next[layer] = pulse;
+          return next;
+        });
+      }),
+      // Start/stop can come from a setlist or a tempo map ending, not only from the Play button
+      TE.on('start', () => {
+        setRunning(true);
+        refresh();
+      }),
+      TE.on('stop', () => {
+        setRunning(false);
+        refresh();
+      }),
+    ];
+    return () => unsubscribe.forEach(fn => fn());
+  }, []);
+
+  useEffect(() => {
+    let disposed = false;
+    void M.restoreClickSamples().then(() => {
+      if (!disposed) setClickSamples(M.getState().clickSamples);
+    });
+    return () => {
+      disposed = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let resetTimer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = Tap.subscribeTap(() => {
+      setTap(Tap.getTapState());
+      setBpm(M.getState().bpm);
+      // Let the tap counter fall back to zero once the count has timed out
+      if (resetTimer) clearTimeout(resetTimer);
+      resetTimer = setTimeout(() => setTap(Tap.getTapState()), Tap.TAP_RESET_MS + 50);
+    });
+    const handleDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      if (e.key.toLowerCase() !== Tap.TAP_SHORTCUT) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      e.preventDefault();
+      Tap.tap();
+    };
+    window.addEventListener('keydown', handleDown);
+    return () => {
+      unsubscribe();
+      if (resetTimer) clearTimeout(resetTimer);
+      window.removeEventListener('keydown', handleDown);
+    };
   }, []);
 
   const indicators = useMemo(() => new Array(beats).fill(0).map((_, i) => i), [beats]);
+  const presets = useMemo(() => M.groupingPresets(beats, beatUnit), [beats, beatUnit]);
+
+  const syncState = () => {
+    const s = M.getState();
+    setBeats(s.beatsPerBar);
+    setBeatUnit(s.beatUnit);
+    setGrouping(s.grouping);
+    setAccents(s.accents);
+    setVolumes(s.volumes);
+    setLayers(s.layers);
+  };
+
+  const patchTrainer = (patch: Partial<M.TrainerSettings>) => {
+    M.setTrainer(patch);
+    const s = M.getState();
+    setTrainer(s.trainer);
+    setTrainerStatus(s.trainerStatus);
+  };
+
+  const patchGap = (patch: Partial<M.GapSettings>) => {
+    M.setGap(patch);
+    const s = M.getState();
+    setGap(s.gap);
+    setGapStatus(s.gapStatus);
+  };
+
+  const syncClick = () => {
+    const s = M.getState();
+    setClickPresets(s.clickPresets);
+    setClickSamples(s.clickSamples);
+    setClickOutput(s.clickOutput);
+  };
+
+  const loadClickSample = async (slot: M.ClickSlot, file: File) => {
+    setClickError(null);
+    try {
+      await M.setClickSample(slot, file);
+    } catch (e) {
+      setClickError(e instanceof Error ? e.message : String(e));
+    }
+    syncClick();
+  };
+
+  const removeClickSample = async (slot: M.ClickSlot) => {
+    setClickError(null);
+    try {
+      await M.clearClickSample(slot);
+    } catch (e) {
+      setClickError(e instanceof Error ? e.message : String(e));
+    }
+    syncClick();
+  };
+
+  const changeSignature = (nextBeats: number, nextUnit: M.BeatUnit) => {
+    M.setTimeSignature(nextBeats, nextUnit);
+    syncState();
+  };
+  const pulses = M.SUBDIVISION_PULSES[subdivision];
+  const activeLevels = useMemo(() => M.levelsFor(subdivision), [subdivision]);
   const minBpm = 30;
   const maxBpm = 300;
   const pct = Math.round(((bpm - minBpm) / (maxBpm - minBpm)) * 100);
@@ -42,7 +337,10 @@ export default function Metronome() {
             <CardTitle className="font-display text-3xl">Metronome</CardTitle>
             <CardDescription>Dial tempo, volume, and accents for each beat.</CardDescription>
           </div>
-          <Badge variant="secondary">Beats: {beats}</Badge>
+          <Badge variant="secondary">
+            {beats}/{beatUnit}
+            {grouping && ` (${grouping.join('+')})`}
+          </Badge>
         </div>
       </CardHeader>
 
@@ -50,28 +348,42 @@ export default function Metronome() {
         <div className="flex items-center justify-between gap-4">
           <div className="text-4xl font-semibold tracking-tight">
             {bpm} <span className="text-base text-muted-foreground align-baseline">BPM</span>
+            {beatUnit !== 4 && <span className="ml-1 text-xs text-muted-foreground align-baseline">per 1/{beatUnit}</span>}
+          </div>
+          <div className="flex items-center gap-3">
+            <Button
+              onClick={() => Tap.tap()}
+              variant="outline"
+              className="h-12 min-w-[4.5rem] rounded-full"
+              title={`Tap tempo (${Tap.TAP_SHORTCUT.toUpperCase()})`}
+            >
+              {tap.count > 0 ? `Tap ${tap.count}` : 'Tap'}
+            </Button>
+            <Button
+              onClick={async () => {
+                await M.toggle();
+                const s = M.getState();
+                setRunning(s.isRunning);
+                setBpm(s.bpm);
+                setTrainerStatus(s.trainerStatus);
+                setGapStatus(s.gapStatus);
+              }}
+              aria-label={running ? 'Stop' : 'Play'}
+              variant={running ? 'destructive' : 'accent'}
+              size="icon"
+              className="h-12 w-12 rounded-full shadow"
+            >
+              {running ? (
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-6 h-6">
+                  <rect x="5" y="5" width="10" height="10" rx="1" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-6 h-6">
+                  <path d="M6 4.5v11l10-5.5-10-5.5z" />
+                </svg>
+              )}
+            </Button>
           </div>
-          <Button
-            onClick={async () => {
-              await M.toggle();
-              const s = M.getState();
-              setRunning(s.isRunning);
-            }}
-            aria-label={running ? 'Stop' : 'Play'}
-            variant={running ? 'destructive' : 'accent'}
-            size="icon"
-            className="h-12 w-12 rounded-full shadow"
-          >
-            {running ? (
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-6 h-6">
-                <rect x="5" y="5" width="10" height="10" rx="1" />
-              </svg>
-            ) : (
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-6 h-6">
-                <path d="M6 4.5v11l10-5.5-10-5.5z" />
-              </svg>
-            )}
-          </Button>
         </div>
 
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:gap-6">
@@ -101,7 +413,7 @@ export default function Metronome() {
                 M.setBpm(v);
               }}
               className="slider flex-1"
-              style={{ ['--val' as any]: `${pct}%` }}
+              style={sliderFill(pct)}
             />
             <Button
               onClick={() => {
@@ -118,31 +430,76 @@ export default function Metronome() {
           </div>
 
           <div className="flex items-center gap-2">
-            <label className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Beats</label>
+            <label className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Time</label>
             <select
               value={beats}
-              onChange={e => {
-                const v = Number(e.target.value);
-                setBeats(v);
-                const nextAcc = new Array(v).fill(false);
-                for (let i = 0; i < Math.min(accents.length, v); i++) nextAcc[i] = accents[i];
-                setAccents(nextAcc);
-                const nextVols = new Array(v).fill(1);
-                for (let i = 0; i < Math.min(volumes.length, v); i++) nextVols[i] = volumes[i];
-                setVolumes(nextVols);
-                M.setBeatsPerBar(v);
-                M.setAccents(nextAcc);
-                M.setVolumes(nextVols);
-              }}
+              aria-label="Beats per bar"
+              onChange={e => changeSignature(Number(e.target.value), beatUnit)}
+              className="rounded-md border border-input bg-background px-2 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {new Array(M.MAX_BEATS_PER_BAR).fill(0).map((_, i) => (
+                <option key={i + 1} value={i + 1}>
+                  {i + 1}
+                </option>
+              ))}
+            </select>
+            <span className="text-muted-foreground">/</span>
+            <select
+              value={beatUnit}
+              aria-label="Beat unit"
+              onChange={e => changeSignature(beats, Number(e.target.value) as M.BeatUnit)}
               className="rounded-md border border-input bg-background px-2 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
             >
-              {[2, 3, 4, 6].map(n => (
+              {M.BEAT_UNITS.map(n => (
                 <option key={n} value={n}>
                   {n}
                 </option>
               ))}
             </select>
           </div>
+
+          {presets.length > 0 && (
+            <div className="flex items-center gap-2">
+              <label className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Groups</label>
+              <select
+                value={grouping ? grouping.join('+') : ''}
+                aria-label="Beat grouping"
+                onChange={e => {
+                  const next = e.target.value ? e.target.value.split('+').map(Number) : null;
+                  M.setGrouping(next);
+                  syncState();
+                }}
+                className="rounded-md border border-input bg-background px-2 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <option value="">None</option>
+                {presets.map(g => (
+                  <option key={g.join('+')} value={g.join('+')}>
+                    {g.join('+')}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Split</label>
+            <select
+              value={subdivision}
+              aria-label="Subdivision"
+              onChange={e => {
+                const v = e.target.value as M.Subdivision;
+                setSubdivision(v);
+                M.setSubdivision(v);
+              }}
+              className="rounded-md border border-input bg-background px-2 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {(Object.keys(SUBDIVISION_LABELS) as M.Subdivision[]).map(v => (
+                <option key={v} value={v}>
+                  {SUBDIVISION_LABELS[v]}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         <div className="rounded-2xl border border-border/70 bg-muted/50 px-4 py-3" style={{ height: 160 }}>
@@ -186,6 +543,377 @@ export default function Metronome() {
             </div>
           ))}
         </div>
+
+        {pulses > 1 && (
+          <div className="flex gap-2" aria-label="Subdivision grid">
+            {indicators.map(i => (
+              <div className="flex flex-1 justify-center gap-1" key={`pulses-${i}`}>
+                {new Array(pulses).fill(0).map((_, p) => {
+                  const active = running && i === beatInBar && p === pulse;
+                  return (
+                    <span
+                      key={p}
+                      className={
+                        'rounded-full transition-colors ' +
+                        (p === 0 ? 'h-2.5 w-2.5 ' : 'h-1.5 w-1.5 self-center ') +
+                        (active ? 'bg-accent' : 'bg-border')
+                      }
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeLevels.length > 0 && (
+          <div className="space-y-2 rounded-xl border border-border/70 bg-background/70 p-3">
+            {activeLevels.map(level => (
+              <div className="flex items-center gap-2" key={level}>
+                <span className="w-24 text-xs text-muted-foreground">{LEVEL_LABELS[level]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={levels[level].volume}
+                  aria-label={`${LEVEL_LABELS[level]} volume`}
+                  onChange={e => {
+                    M.setLevel(level, { volume: Number(e.target.value) });
+                    setLevels(M.getState().levels);
+                  }}
+                  className="slider flex-1"
+                  style={sliderFill(Math.round(levels[level].volume * 100))}
+                />
+                <select
+                  value={levels[level].sound}
+                  aria-label={`${LEVEL_LABELS[level]} sound`}
+                  onChange={e => {
+                    M.setLevel(level, { sound: e.target.value as M.ClickSound });
+                    setLevels(M.getState().levels);
+                  }}
+                  className="h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  {(Object.keys(CLICK_SOUND_LABELS) as M.ClickSound[]).map(sound => (
+                    <option key={sound} value={sound}>
+                      {CLICK_SOUND_LABELS[sound]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-xl border border-border/70 bg-background/70 p-3">
+          <span className="text-sm font-semibold">Click sound</span>
+          {CLICK_SLOTS.map(({ slot, label }) => (
+            <div key={slot} className="flex flex-wrap items-center gap-2">
+              <span className="w-16 text-xs text-muted-foreground">{label}</span>
+              <select
+                value={clickPresets[slot]}
+                aria-label={`${label} click sound`}
+                onChange={e => {
+                  const preset = e.target.value as M.ClickPreset;
+                  // Custom without a sample yet: ask for one straight away
+                  if (preset === 'custom' && !clickSamples[slot]) {
+                    sampleInputs.current[slot]?.click();
+                    return;
+                  }
+                  M.setClickPreset(slot, preset);
+                  syncClick();
+                }}
+                className="h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                {M.CLICK_PRESETS.map(preset => (
+                  <option key={preset} value={preset} disabled={preset === 'count' && !M.isSpeechSupported()}>
+                    {CLICK_PRESET_LABELS[preset]}
+                  </option>
+                ))}
+              </select>
+              {clickPresets[slot] === 'custom' && clickSamples[slot] && (
+                <span className="max-w-[10rem] truncate text-xs text-muted-foreground" title={clickSamples[slot]}>
+                  {clickSamples[slot]}
+                </span>
+              )}
+              <Button variant="ghost" size="xs" onClick={() => sampleInputs.current[slot]?.click()}>
+                Load sample…
+              </Button>
+              {clickSamples[slot] && (
+                <Button variant="ghost" size="xs" onClick={() => removeClickSample(slot)}>
+                  Remove
+                </Button>
+              )}
+              <input
+                ref={el => (sampleInputs.current[slot] = el)}
+                type="file"
+                accept={USER_SAMPLE_ACCEPT}
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) void loadClickSample(slot, file);
+                }}
+              />
+            </div>
+          ))}
+          {(clickPresets.accent === 'count' || clickPresets.normal === 'count') && (
+            <p className="text-xs text-muted-foreground">The spoken count uses the browser's voice. It lags the beat slightly and is not recorded.</p>
+          )}
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-xs text-muted-foreground">Level</span>
+            <input
+              type="range"
+              min={M.MIN_CLICK_DB}
+              max={M.MAX_CLICK_DB}
+              step={0.5}
+              value={clickOutput.volume}
+              aria-label="Metronome level"
+              onChange={e => {
+                M.setClickOutput({ volume: Number(e.target.value) });
+                syncClick();
+              }}
+              onDoubleClick={() => {
+                M.setClickOutput({ volume: 0 });
+                syncClick();
+              }}
+              className="slider flex-1"
+              style={sliderFill(Math.round(((clickOutput.volume - M.MIN_CLICK_DB) / (M.MAX_CLICK_DB - M.MIN_CLICK_DB)) * 100))}
+            />
+            <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">{formatClickDb(clickOutput.volume)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-xs text-muted-foreground">Pan</span>
+            <span className="text-[10px] text-muted-foreground">L</span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={clickOutput.pan}
+              aria-label="Metronome pan"
+              onChange={e => {
+                M.setClickOutput({ pan: Number(e.target.value) });
+                syncClick();
+              }}
+              onDoubleClick={() => {
+                M.setClickOutput({ pan: 0 });
+                syncClick();
+              }}
+              className="flex-1 accent-[hsl(var(--accent))]"
+            />
+            <span className="text-[10px] text-muted-foreground">R</span>
+          </div>
+          {clickError && <div className="text-sm text-destructive">{clickError}</div>}
+        </div>
+
+        <div className="space-y-3 rounded-xl border border-border/70 bg-background/70 p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm font-semibold">Polyrhythm</span>
+            <div className="flex items-center gap-2">
+              <select
+                value=""
+                aria-label="Polyrhythm preset"
+                onChange={e => {
+                  const [pulses, beatCount] = e.target.value.split(':').map(Number);
+                  M.setPolyrhythm(pulses, beatCount);
+                  syncState();
+                }}
+                className="h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <option value="" disabled>
+                  Ratio…
+                </option>
+                {POLY_PRESETS.map(([a, b]) => (
+                  <option key={`${a}:${b}`} value={`${a}:${b}`}>
+                    {a}:{b}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="xs"
+                disabled={layers.length >= M.MAX_LAYERS}
+                onClick={() => {
+                  M.addLayer(3);
+                  setLayers(M.getState().layers);
+                }}
+              >
+                Add layer
+              </Button>
+            </div>
+          </div>
+          {layers.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <span className="w-10 text-xs tabular-nums text-muted-foreground">{beats}</span>
+                <PulseLane count={beats} active={running ? beatInBar : null} />
+              </div>
+              {layers.map((layer, li) => (
+                <div key={layer.id} className="space-y-2">
+                  <div className="flex items-center gap-3">
+                    <span className="w-10 text-xs tabular-nums text-muted-foreground">
+                      {layer.pulses}:{beats}
+                    </span>
+                    <PulseLane count={layer.pulses} active={running ? layerPulses[li] ?? null : null} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 pl-[3.25rem]">
+                    <select
+                      value={layer.pulses}
+                      aria-label={`Layer ${li + 1} pulses`}
+                      onChange={e => {
+                        M.setLayer(li, { pulses: Number(e.target.value) });
+                        setLayers(M.getState().layers);
+                      }}
+                      className="h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                      {new Array(M.MAX_LAYER_PULSES).fill(0).map((_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          {i + 1} per bar
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={layer.sound}
+                      aria-label={`Layer ${li + 1} sound`}
+                      onChange={e => {
+                        M.setLayer(li, { sound: e.target.value as M.ClickSound });
+                        setLayers(M.getState().layers);
+                      }}
+                      className="h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                      {(Object.keys(CLICK_SOUND_LABELS) as M.ClickSound[]).map(sound => (
+                        <option key={sound} value={sound}>
+                          {CLICK_SOUND_LABELS[sound]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={layer.volume}
+                      aria-label={`Layer ${li + 1} volume`}
+                      onChange={e => {
+                        M.setLayer(li, { volume: Number(e.target.value) });
+                        setLayers(M.getState().layers);
+                      }}
+                      className="slider min-w-[6rem] flex-1"
+                      style={sliderFill(Math.round(layer.volume * 100))}
+                    />
+                    <Button
+                      variant={layer.muted ? 'secondary' : 'ghost'}
+                      size="xs"
+                      onClick={() => {
+                        M.setLayer(li, { muted: !layer.muted });
+                        setLayers(M.getState().layers);
+                      }}
+                    >
+                      {layer.muted ? 'Muted' : 'Mute'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => {
+                        M.removeLayer(li);
+                        setLayers(M.getState().layers);
+                        setLayerPulses([]);
+                      }}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 rounded-xl border border-border/70 bg-background/70 p-3 text-sm">
+          <span className="font-semibold">Tap tempo</span>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Average
+            <select
+              value={tap.settings.taps}
+              aria-label="Taps to average"
+              onChange={e => Tap.setTapCount(Number(e.target.value))}
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {new Array(Tap.MAX_TAPS - Tap.MIN_TAPS + 1).fill(0).map((_, i) => (
+                <option key={i} value={Tap.MIN_TAPS + i}>
+                  {Tap.MIN_TAPS + i} taps
+                </option>
+              ))}
+            </select>
+          </label>
+          <MidiControlBinding action="tap" />
+          <span className="text-xs text-muted-foreground">Key: {Tap.TAP_SHORTCUT.toUpperCase()}</span>
+        </div>
+
+        <MidiClockSync />
+
+        <div className="space-y-3 rounded-xl border border-border/70 bg-background/70 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              <input
+                type="checkbox"
+                checked={trainer.enabled}
+                onChange={e => patchTrainer({ enabled: e.target.checked })}
+                className="h-4 w-4 accent-[hsl(var(--accent))]"
+              />
+              Speed trainer
+            </label>
+            {trainer.enabled && running && trainerStatus && (
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {trainerStatus.barsToNext != null ? `Next change in ${plural(trainerStatus.barsToNext, 'bar')}` : 'At target'}
+                {trainerStatus.barsToTarget > 0 && ` · ${trainerStatus.barsToTarget} to target`}
+              </span>
+            )}
+          </div>
+          {trainer.enabled && (
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {TRAINER_FIELDS.map(f => (
+                <NumberField key={f.key} label={f.label} unit={f.unit} min={f.min} max={f.max} value={trainer[f.key]} onCommit={v => patchTrainer({ [f.key]: v })} />
+              ))}
+              <label className="col-span-2 flex items-center gap-2 text-sm sm:col-span-4">
+                <input
+                  type="checkbox"
+                  checked={trainer.loop}
+                  onChange={e => patchTrainer({ loop: e.target.checked })}
+                  className="h-4 w-4 accent-[hsl(var(--accent))]"
+                />
+                Start over after the target
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 rounded-xl border border-border/70 bg-background/70 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              <input
+                type="checkbox"
+                checked={gap.enabled}
+                onChange={e => patchGap({ enabled: e.target.checked })}
+                className="h-4 w-4 accent-[hsl(var(--accent))]"
+              />
+              Gap click
+            </label>
+            {gap.enabled && running && gapStatus && (
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {gapStatus.muted ? `Silent (${plural(gapStatus.muteBars, 'bar')})` : 'Clicking'} · {gapStatus.barsLeft} left
+              </span>
+            )}
+          </div>
+          {gap.enabled && (
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {GAP_FIELDS.map(f => (
+                <NumberField key={f.key} label={f.label} unit={f.unit} min={f.min} max={f.max} value={gap[f.key]} onCommit={v => patchGap({ [f.key]: v })} />
+              ))}
+            </div>
+          )}
+        </div>
       </CardContent>
     </Card>
   );
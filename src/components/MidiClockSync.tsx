@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { getMidiClockState, restoreMidiClock, setClockInput, setClockOutput, subscribeMidiClock } from '../audio/midiClock';
+import { getMIDIAccess, listMidiInputs, listMidiOutputs } from '../midi/midi';
+import { Badge } from './ui/badge';
+
+type Device = { id: string; name?: string; manufacturer?: string };
+
+const SELECT_CLASS =
+  'h-8 max-w-[12rem] rounded-md border border-input bg-background px-2 text-xs text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50';
+
+// "Clock from [input]  Send to [output]" for the metronome's transport
+export default function MidiClockSync() {
+  const [supported] = useState(() => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator);
+  const [clock, setClock] = useState(getMidiClockState);
+  const [inputs, setInputs] = useState<Device[]>([]);
+  const [outputs, setOutputs] = useState<Device[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    restoreMidiClock();
+    return subscribeMidiClock(() => setClock(getMidiClockState()));
+  }, []);
+
+  useEffect(() => {
+    if (!supported) return;
+    let disposed = false;
+    let access: WebMidi.MIDIAccess | null = null;
+    const refresh = async () => {
+      const [ins, outs] = await Promise.all([listMidiInputs(), listMidiOutputs()]);
+      if (disposed) return;
+      setInputs(ins);
+      setOutputs(outs);
+    };
+    (async () => {
+      try {
+        access = await getMIDIAccess();
+        if (disposed) return;
+        access.addEventListener('statechange', refresh);
+        await refresh();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => {
+      disposed = true;
+      access?.removeEventListener('statechange', refresh);
+    };
+  }, [supported]);
+
+  if (!supported) return null;
+
+  const { settings, status } = clock;
+  // A stored device that is not plugged in stays selected, so it is picked up again when it returns
+  const options = (devices: Device[], selected: string | null) => [
+    ...devices.map(d => ({ id: d.id, label: d.name ?? d.id })),
+    ...(selected && !devices.some(d => d.id === selected) ? [{ id: selected, label: 'Not connected' }] : []),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 rounded-xl border border-border/70 bg-background/70 p-3 text-sm">
+      <span className="font-semibold">MIDI clock</span>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Follow
+        <select
+          value={settings.inputId ?? ''}
+          aria-label="MIDI clock input"
+          onChange={e => setClockInput(e.target.value || null)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Internal clock</option>
+          {options(inputs, settings.inputId).map(d => (
+            <option key={d.id} value={d.id}>
+              {d.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Send to
+        <select
+          value={settings.outputId ?? ''}
+          aria-label="MIDI clock output"
+          disabled={!!settings.inputId}
+          title={settings.inputId ? 'Clock is only sent while the metronome runs on its own clock' : undefined}
+          onChange={e => setClockOutput(e.target.value || null)}
+          className={SELECT_CLASS}
+        >
+          <option value="">Nowhere</option>
+          {options(outputs, settings.outputId).map(d => (
+            <option key={d.id} value={d.id}>
+              {d.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {settings.inputId && (
+        <Badge variant={status.receiving ? 'accent' : 'outline'} className="tabular-nums">
+          {status.receiving ? (status.bpm != null ? `${status.bpm} BPM` : 'Locking…') : 'No clock'}
+        </Badge>
+      )}
+      {(error || status.error) && <span className="text-xs text-destructive">{error || status.error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import {
+  bindingLabel,
+  cancelControlLearn,
+  clearControlBinding,
+  ControlAction,
+  getControlBinding,
+  getLearningControl,
+  startControlLearn,
+  subscribeControls,
+} from '../audio/controlBindings';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+
+type Props = {
+  action: ControlAction;
+};
+
+// "MIDI [Note 42] Learn Clear" for one control; learning listens on the device picked in the pad card
+export default function MidiControlBinding({ action }: Props) {
+  const [binding, setBinding] = useState(() => getControlBinding(action));
+  const [learning, setLearning] = useState(() => getLearningControl() === action);
+
+  useEffect(
+    () =>
+      subscribeControls(() => {
+        setBinding(getControlBinding(action));
+        setLearning(getLearningControl() === action);
+      }),
+    [action]
+  );
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      MIDI
+      <Badge variant={binding ? 'secondary' : 'outline'}>{learning ? 'Hit a pad…' : bindingLabel(binding)}</Badge>
+      <Button
+        variant="ghost"
+        size="xs"
+        title="Hit a pad or press a CC on the selected MIDI device"
+        onClick={() => (learning ? cancelControlLearn() : startControlLearn(action))}
+      >
+        {learning ? 'Cancel' : 'Learn'}
+      </Button>
+      {binding && !learning && (
+        <Button variant="ghost" size="xs" onClick={() => clearControlBinding(action)}>
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CSSProperties, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import MidiDevicePicker from './MidiDevicePicker';
-import { initMidiCcListenerForInput, initMidiListenerForInput } from '../midi/midi';
-import { ensureAudioStarted, getDrumSampler, listDrumPads, triggerMidi, isUsingFallback, DrumPad, triggerPad, midiNoteToPad, MidiCC, setHiHatOpenByCC4 } from '../audio/sampler';
+import KitImportDialog from './KitImportDialog';
+import { initMidiAftertouchListenerForInput, initMidiCcListenerForInput, initMidiListenerForInput } from '../midi/midi';
+import { initDrumEngine, listDrumPads, triggerMidi, isUsingFallback, DrumPad, triggerPad, midiNoteToPad, MidiCC, setHiHatOpenByCC4, getCurrentKitId, setKit, getPadSettings, updatePadSettings, resetPadSettings, handlePadAftertouch, setDrumEngine, setUserSample, clearUserSample, getUserSampleNames, getEngineKind, setEngineKind, DrumEngineKind, loadCurrentKit } from '../audio/sampler';
+import type { AudioEngine } from '../engine/AudioEngine';
+import { DEFAULT_KIT_ID, deleteImportedKit, listKits, KitSummary } from '../audio/kits';
+import { isImportedKitId } from '../audio/importedKits';
+import { USER_SAMPLE_ACCEPT } from '../audio/userSamples';
+import { CHOKE_GROUP_COUNT, CHOKE_SETTING_KEYS, DEFAULT_AFTERTOUCH_CHOKE, MAX_CHOKE_FADE, MAX_DECAY, MAX_FILTER_HZ, MAX_FINE, MAX_RELEASE, MAX_TUNE, MIN_DECAY, MIN_FILTER_HZ, MIN_RELEASE, SOUND_SETTING_KEYS, MIN_CHOKE_FADE, PadSettings, PadSettingsPatch } from '../audio/padSettings';
+import { handleControlCc, handleControlNote } from '../audio/controlBindings';
 import { useKeyboardPads, KeyMap } from '../hooks/useKeyboardPads';
-import { Badge } from './ui/badge';
+import { Badge, badgeVariants } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { cn } from '../lib/utils';
 
 type PadBinding = { keys: string[]; midis: number[]; ccs: number[] };
 type PadBindings = Record<number, PadBinding>; // target midi -> bindings
@@ -38,12 +46,72 @@ function normalizeBinding(binding?: Partial<PadBinding> | null): PadBinding {
 
 const CC_TRIGGER_THRESHOLD = 64;
 
-export default function MidiSampler() {
+// Filter sliders move in octaves, not Hz
+const FILTER_STEPS = 1000;
+const DEFAULT_DECAY = 0.5;
+
+function filterToSlider(hz: number) {
+  return Math.round((Math.log(hz / MIN_FILTER_HZ) / Math.log(MAX_FILTER_HZ / MIN_FILTER_HZ)) * FILTER_STEPS);
+}
+
+function sliderToFilter(step: number) {
+  return Math.round(MIN_FILTER_HZ * Math.pow(MAX_FILTER_HZ / MIN_FILTER_HZ, step / FILTER_STEPS));
+}
+
+function formatHz(hz: number) {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(1)} kHz` : `${hz} Hz`;
+}
+
+function signed(n: number) {
+  return `${n > 0 ? '+' : ''}${n}`;
+}
+
+type PadSliderProps = {
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  value: number;
+  display: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+  onReset?: () => void;
+};
+
+// Labelled range row used in the pad editor; double-click resets where that makes sense
+function PadSlider({ label, min, max, step = 1, value, display, disabled, onChange, onReset }: PadSliderProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 shrink-0 text-xs text-muted-foreground">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        aria-label={label}
+        onChange={e => onChange(Number(e.target.value))}
+        onDoubleClick={onReset}
+        className="slider flex-1 disabled:opacity-40"
+        style={{ '--val': `${Math.round(((value - min) / (max - min)) * 100)}%` } as CSSProperties}
+      />
+      <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">{display}</span>
+    </div>
+  );
+}
+
+type MidiSamplerProps = {
+  engine?: AudioEngine; // play through this engine instead of the built-in samples/synth
+};
+
+export default function MidiSampler({ engine: injectedEngine }: MidiSamplerProps = {}) {
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [last, setLast] = useState<{ note?: number; velocity?: number }>({});
   const [flashPad, setFlashPad] = useState<DrumPad | null>(null);
-  const [engine, setEngine] = useState<'samples' | 'synth'>(() => (isUsingFallback() ? 'synth' : 'samples'));
+  const [engine, setEngine] = useState<DrumEngineKind>(() => getEngineKind());
+  const [fallback, setFallback] = useState<boolean>(() => isUsingFallback());
   const [loading, setLoading] = useState<boolean>(false);
   const [audioReady, setAudioReady] = useState<boolean>(false);
   const [editMode, setEditMode] = useState<boolean>(false);
@@ -54,6 +122,13 @@ export default function MidiSampler() {
   const [conflictKey, setConflictKey] = useState<string | null>(null);
   const [conflictMidi, setConflictMidi] = useState<{ note: number; ownerLabel: string } | null>(null);
   const [conflictCc, setConflictCc] = useState<{ cc: number; ownerLabel: string } | null>(null);
+  const [kits, setKits] = useState<KitSummary[]>([]);
+  const [kitId, setKitId] = useState<string>(() => getCurrentKitId());
+  const [modalPadSettings, setModalPadSettings] = useState<PadSettings | null>(null);
+  const [userSamples, setUserSamples] = useState<Partial<Record<DrumPad, string>>>({}); // pad -> file name
+  const [dropPad, setDropPad] = useState<DrumPad | null>(null);
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+  const sampleInputRef = useRef<HTMLInputElement | null>(null);
   // no crash/snare variant toggles for now
 
   // Refs to always read latest data inside MIDI handler without stale closures
@@ -66,15 +141,24 @@ export default function MidiSampler() {
     audioReadyRef.current = audioReady;
   }, [audioReady]);
 
+  useEffect(() => {
+    if (!injectedEngine) return;
+    setDrumEngine(injectedEngine);
+    return () => setDrumEngine(null);
+  }, [injectedEngine]);
+
+  const syncEngine = () => {
+    setEngine(getEngineKind());
+    setFallback(isUsingFallback());
+  };
+
   const prepareAudio = useCallback(async () => {
     if (audioReadyRef.current || loading) return audioReadyRef.current;
     setLoading(true);
     setError(null);
     try {
-      const ready = await ensureAudioStarted();
-      if (!ready) throw new Error('Audio is locked by the browser. Click Enable audio.');
-      await getDrumSampler();
-      setEngine(isUsingFallback() ? 'synth' : 'samples');
+      await initDrumEngine();
+      syncEngine();
       setAudioReady(true);
       audioReadyRef.current = true;
       return true;
@@ -90,13 +174,24 @@ export default function MidiSampler() {
     let disposed = false;
     let disposer: { dispose: () => void } | null = null;
     let ccDisposer: { dispose: () => void } | null = null;
+    let atDisposer: { dispose: () => void } | null = null;
     ccDownRef.current = {};
     if (!selectedId) return () => {};
+    const getResolvedIncomingMidi = (incoming: number) => {
+      // Never override GM default mappings
+      if (defaultMidiSetRef.current.has(incoming)) return incoming;
+      for (const [targetStr, b] of Object.entries(bindingsRef.current)) {
+        if (b?.midis?.includes(incoming)) return Number(targetStr);
+      }
+      return incoming;
+    };
     (async () => {
       try {
         const d = await initMidiListenerForInput(selectedId, async (note, vel) => {
           if (disposed) return;
           setLast({ note, velocity: vel });
+          // Notes bound to a control (tap tempo, next song) or being learned do not play a pad
+          if (handleControlNote(note, vel)) return;
           // If we are capturing a MIDI note for binding, record and skip normal triggering
           if (listenMidiForMidi != null && vel > 0) {
             // Prevent duplicate MIDI mapping used by another sound
@@ -133,14 +228,6 @@ export default function MidiSampler() {
             setListenMidiForMidi(null);
             return;
           }
-          const getResolvedIncomingMidi = (incoming: number) => {
-            // Never override GM default mappings
-            if (defaultMidiSetRef.current.has(incoming)) return incoming;
-            for (const [targetStr, b] of Object.entries(bindingsRef.current)) {
-              if (b?.midis?.includes(incoming)) return Number(targetStr);
-            }
-            return incoming;
-          };
           const resolved = getResolvedIncomingMidi(note);
           if (vel > 0 && resolved != null) {
             const pad = midiNoteToPad(resolved);
@@ -156,6 +243,7 @@ export default function MidiSampler() {
         ccDisposer = await initMidiCcListenerForInput(selectedId, (cc, val) => {
           if (disposed) return;
           if (cc === MidiCC.FootController) setHiHatOpenByCC4(val);
+          if (handleControlCc(cc, val)) return;
           if (listenCcForMidi != null && val > 0) {
             let ownerLabel: string | null = null;
             for (const [m, b] of Object.entries(bindingsRef.current)) {
@@ -202,6 +290,12 @@ export default function MidiSampler() {
           if (!audioReadyRef.current) return;
           void triggerMidi(resolved, Math.max(1, Math.min(127, val)));
         });
+        atDisposer = await initMidiAftertouchListenerForInput(selectedId, (note, pressure) => {
+          if (disposed || !audioReadyRef.current) return;
+          // Grabbing a cymbal edge reports pressure on the note it was hit with
+          const pad = midiNoteToPad(getResolvedIncomingMidi(note));
+          if (pad) handlePadAftertouch(pad, pressure);
+        });
       } catch (e: any) {
         setError(e?.message || String(e));
       }
@@ -214,27 +308,140 @@ export default function MidiSampler() {
       try {
         ccDisposer?.dispose();
       } catch {}
+      try {
+        atDisposer?.dispose();
+      } catch {}
     };
   }, [selectedId, listenMidiForMidi, listenCcForMidi]);
 
-  const allPads = useMemo(() => listDrumPads(), []);
+  const reloadKits = useCallback(() => {
+    let disposed = false;
+    listKits()
+      .then(list => {
+        if (!disposed) setKits(list);
+      })
+      .catch(e => {
+        if (!disposed) setError(e?.message || String(e));
+      });
+    return () => {
+      disposed = true;
+    };
+  }, []);
+
+  useEffect(() => reloadKits(), [reloadKits]);
+
+  const changeKit = useCallback(async (id: string) => {
+    if (id === kitId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await setKit(id);
+      setKitId(id);
+      syncEngine();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [kitId]);
+
+  const removeImportedKit = useCallback(async () => {
+    const kit = kits.find(k => k.id === kitId);
+    const ok = window.confirm(`Remove the imported kit "${kit?.name ?? kitId}"?`);
+    if (!ok) return;
+    const id = kitId;
+    await changeKit(DEFAULT_KIT_ID);
+    try {
+      await deleteImportedKit(id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    reloadKits();
+  }, [kits, kitId, changeKit, reloadKits]);
+
+  const refreshUserSamples = useCallback(() => {
+    getUserSampleNames()
+      .then(setUserSamples)
+      .catch(() => setUserSamples({}));
+  }, []);
+
+  useEffect(() => {
+    refreshUserSamples();
+  }, [kitId, refreshUserSamples]);
+
+  const assignSample = useCallback(async (pad: DrumPad, file: File) => {
+    setError(null);
+    try {
+      await setUserSample(pad, file);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    refreshUserSamples();
+  }, [refreshUserSamples]);
+
+  const revertSample = useCallback(async (pad: DrumPad) => {
+    setError(null);
+    try {
+      await clearUserSample(pad);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    refreshUserSamples();
+  }, [refreshUserSamples]);
+
+  const changeEngine = useCallback(async (kind: DrumEngineKind) => {
+    setLoading(true);
+    setError(null);
+    try {
+      await setEngineKind(kind);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      syncEngine();
+      setLoading(false);
+    }
+  }, []);
+
+  // Core pads plus whatever extra GM sounds the current kit brings
+  const [allPads, setAllPads] = useState(() => listDrumPads());
+  useEffect(() => {
+    let live = true;
+    loadCurrentKit()
+      .catch(() => {})
+      .finally(() => {
+        if (live) setAllPads(listDrumPads());
+      });
+    return () => {
+      live = false;
+    };
+  }, [kitId]);
   const order: DrumPad[] = [
     DrumPad.HiHatClosed, DrumPad.HiHatPedal, DrumPad.HiHatOpen, DrumPad.Crash, DrumPad.Ride, DrumPad.Stick,
     DrumPad.Kick, DrumPad.Snare, DrumPad.TomHigh, DrumPad.TomMid, DrumPad.TomFloor,
   ];
   const pads = useMemo(() => {
     const map = new Map(allPads.map(p => [p.pad, p] as const));
-    return order.map(p => map.get(p)).filter(Boolean) as typeof allPads;
+    const core = order.map(p => map.get(p)).filter(Boolean) as typeof allPads;
+    return [...core, ...allPads.filter(p => !order.includes(p.pad))];
   }, [allPads]);
   const padsByPad = useMemo(() => new Map(allPads.map(p => [p.pad, p])), [allPads]);
   const midiToLabel = useMemo(() => Object.fromEntries(allPads.map(p => [p.midi, p.label] as const)), [allPads]);
 
+  const modalPad = modalForMidi != null ? midiNoteToPad(modalForMidi) : null;
+
+  const patchModalPad = (patch: PadSettingsPatch) => {
+    if (!modalPad) return;
+    updatePadSettings(modalPad, patch);
+    setModalPadSettings(getPadSettings(modalPad));
+  };
+
   const handlePad = useCallback(async (pad: DrumPad) => {
     if (loading) return; // ignore interaction while loading
     if (editMode) {
       const midi = padsByPad.get(pad)?.midi;
       if (midi != null) {
         setModalForMidi(midi);
+        setModalPadSettings(getPadSettings(pad));
         setConflictKey(null);
         setConflictMidi(null);
         setConflictCc(null);
@@ -329,9 +536,23 @@ export default function MidiSampler() {
             <div className="flex flex-wrap items-center gap-2">
               {loading && <Badge variant="secondary">Loading kit…</Badge>}
               {!audioReady && !loading && <Badge variant="outline">Audio locked</Badge>}
-              <Badge variant={engine === 'samples' ? 'accent' : 'outline'}>
-                {engine === 'samples' ? 'Samples engine' : 'Synth fallback'}
-              </Badge>
+              {fallback && <Badge variant="outline">Synth fallback</Badge>}
+              {!injectedEngine && (
+                <div className="flex items-center gap-1" role="group" aria-label="Sound engine">
+                  {(['samples', 'synth'] as const).map(kind => (
+                    <button
+                      key={kind}
+                      type="button"
+                      disabled={loading}
+                      aria-pressed={engine === kind}
+                      onClick={() => changeEngine(kind)}
+                      className={cn(badgeVariants({ variant: engine === kind ? 'accent' : 'outline' }), 'cursor-pointer disabled:opacity-50')}
+                    >
+                      {kind === 'samples' ? 'Samples' : 'Synth'}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -348,11 +569,33 @@ export default function MidiSampler() {
                 <p className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Pad bank</p>
                 <p className="text-xs text-muted-foreground">
                   {audioReady
-                    ? 'Click, touch, or hit mapped keys.'
+                    ? 'Click, touch, or hit mapped keys. Drop a WAV, MP3 or OGG on a pad to use your own sample.'
                     : 'Click Enable audio or tap a pad to unlock sound.'}
                 </p>
               </div>
               <div className="flex items-center gap-2">
+                <select
+                  value={kitId}
+                  disabled={loading || kits.length < 2}
+                  aria-label="Drum kit"
+                  onChange={e => changeKit(e.target.value)}
+                  className="h-9 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  {!kits.some(k => k.id === kitId) && <option value={kitId}>{kitId}</option>}
+                  {kits.map(k => (
+                    <option key={k.id} value={k.id} title={k.description}>
+                      {k.name}
+                    </option>
+                  ))}
+                </select>
+                {isImportedKitId(kitId) && (
+                  <Button variant="ghost" size="sm" disabled={loading} onClick={removeImportedKit}>
+                    Remove
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" disabled={loading} onClick={() => setImportOpen(true)}>
+                  Import kit
+                </Button>
                 {!audioReady && (
                   <Button variant="accent" size="sm" onClick={prepareAudio} disabled={loading}>
                     Enable audio
@@ -405,9 +648,22 @@ export default function MidiSampler() {
                     onClick={(e) => {
                       if (e.detail === 0) handlePad(p.pad);
                     }}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes('Files')) return;
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'copy';
+                      setDropPad(p.pad);
+                    }}
+                    onDragLeave={() => setDropPad(prev => (prev === p.pad ? null : prev))}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDropPad(null);
+                      const file = e.dataTransfer.files[0];
+                      if (file) void assignSample(p.pad, file);
+                    }}
                     className={
                       'relative px-3 py-4 rounded-xl border text-foreground active:translate-y-[1px] transition shadow-sm ' +
-                      (flashPad === p.pad
+                      (flashPad === p.pad || dropPad === p.pad
                         ? 'border-accent bg-accent/15 shadow-[0_0_0_2px_hsl(var(--accent)/0.25)]'
                         : editMode
                           ? 'border-primary/70 bg-primary/10 hover:border-primary'
@@ -415,6 +671,11 @@ export default function MidiSampler() {
                     }
                   >
                     <div className="text-sm font-semibold sm:text-base">{p.label}</div>
+                    {userSamples[p.pad] && (
+                      <div className="mt-0.5 truncate text-[10px] text-muted-foreground" title={userSamples[p.pad]}>
+                        {userSamples[p.pad]}
+                      </div>
+                    )}
                   </button>
                 ))}
               </div>
@@ -425,6 +686,17 @@ export default function MidiSampler() {
         </CardContent>
       </Card>
 
+      {importOpen && (
+        <KitImportDialog
+          onClose={() => setImportOpen(false)}
+          onImported={id => {
+            setImportOpen(false);
+            reloadKits();
+            void changeKit(id);
+          }}
+        />
+      )}
+
       {modalForMidi != null && (
         <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 backdrop-blur-sm">
           <div className="w-full max-w-md rounded-xl border border-border/80 bg-popover p-4 text-popover-foreground shadow-lg">
@@ -604,6 +876,237 @@ export default function MidiSampler() {
                 </div>
               </div>
 
+              {modalPad && (
+                <div className="rounded-xl border border-border/70 bg-background/70 p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-[15px] sm:text-base font-semibold">Sample</div>
+                    <div className="flex items-center gap-1">
+                      {userSamples[modalPad] && (
+                        <Button variant="ghost" size="xs" onClick={() => revertSample(modalPad)}>
+                          Revert to kit default
+                        </Button>
+                      )}
+                      <Button variant="outline" size="xs" onClick={() => sampleInputRef.current?.click()}>
+                        Choose file…
+                      </Button>
+                    </div>
+                  </div>
+                  <input
+                    ref={sampleInputRef}
+                    type="file"
+                    accept={USER_SAMPLE_ACCEPT}
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) void assignSample(modalPad, file);
+                    }}
+                  />
+                  <div className="truncate text-sm" title={userSamples[modalPad]}>
+                    {userSamples[modalPad] ?? <span className="text-muted-foreground">Kit default</span>}
+                  </div>
+                  {engine === 'synth' && (
+                    <div className="text-xs text-muted-foreground">User samples play with the Samples engine.</div>
+                  )}
+                  {error && <div className="text-xs text-destructive">{error}</div>}
+                </div>
+              )}
+
+              {modalPad && modalPadSettings && (
+                <div className="rounded-xl border border-border/70 bg-background/70 p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-[15px] sm:text-base font-semibold">Sound</div>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => {
+                        resetPadSettings(modalPad, SOUND_SETTING_KEYS);
+                        setModalPadSettings(getPadSettings(modalPad));
+                      }}
+                    >
+                      Kit default
+                    </Button>
+                  </div>
+                  <PadSlider
+                    label="Tune"
+                    min={-MAX_TUNE}
+                    max={MAX_TUNE}
+                    value={modalPadSettings.tune}
+                    display={`${signed(modalPadSettings.tune)} st`}
+                    onChange={tune => patchModalPad({ tune })}
+                    onReset={() => patchModalPad({ tune: 0 })}
+                  />
+                  <PadSlider
+                    label="Fine"
+                    min={-MAX_FINE}
+                    max={MAX_FINE}
+                    value={modalPadSettings.fine}
+                    display={`${signed(modalPadSettings.fine)} ct`}
+                    onChange={fine => patchModalPad({ fine })}
+                    onReset={() => patchModalPad({ fine: 0 })}
+                  />
+                  <div className="flex items-center gap-2">
+                    <label className="flex w-20 shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={modalPadSettings.decay != null}
+                        onChange={e => patchModalPad({ decay: e.target.checked ? DEFAULT_DECAY : null })}
+                        className="h-4 w-4 accent-[hsl(var(--accent))]"
+                      />
+                      Decay
+                    </label>
+                    <input
+                      type="range"
+                      min={MIN_DECAY * 1000}
+                      max={MAX_DECAY * 1000}
+                      step={10}
+                      value={Math.round((modalPadSettings.decay ?? DEFAULT_DECAY) * 1000)}
+                      disabled={modalPadSettings.decay == null}
+                      aria-label="Decay"
+                      onChange={e => patchModalPad({ decay: Number(e.target.value) / 1000 })}
+                      className="slider flex-1 disabled:opacity-40"
+                      style={{ '--val': `${Math.round((((modalPadSettings.decay ?? DEFAULT_DECAY) - MIN_DECAY) / (MAX_DECAY - MIN_DECAY)) * 100)}%` } as CSSProperties}
+                    />
+                    <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">
+                      {modalPadSettings.decay == null ? 'Natural' : `${Math.round(modalPadSettings.decay * 1000)} ms`}
+                    </span>
+                  </div>
+                  <PadSlider
+                    label="Release"
+                    min={MIN_RELEASE * 1000}
+                    max={MAX_RELEASE * 1000}
+                    step={5}
+                    value={Math.round(modalPadSettings.release * 1000)}
+                    display={`${Math.round(modalPadSettings.release * 1000)} ms`}
+                    onChange={ms => patchModalPad({ release: ms / 1000 })}
+                  />
+                  <PadSlider
+                    label="Low-pass"
+                    min={0}
+                    max={FILTER_STEPS}
+                    value={filterToSlider(modalPadSettings.lowpass)}
+                    display={modalPadSettings.lowpass >= MAX_FILTER_HZ ? 'Off' : formatHz(modalPadSettings.lowpass)}
+                    onChange={step => patchModalPad({ lowpass: sliderToFilter(step) })}
+                    onReset={() => patchModalPad({ lowpass: MAX_FILTER_HZ })}
+                  />
+                  <PadSlider
+                    label="High-pass"
+                    min={0}
+                    max={FILTER_STEPS}
+                    value={filterToSlider(modalPadSettings.highpass)}
+                    display={modalPadSettings.highpass <= MIN_FILTER_HZ ? 'Off' : formatHz(modalPadSettings.highpass)}
+                    onChange={step => patchModalPad({ highpass: sliderToFilter(step) })}
+                    onReset={() => patchModalPad({ highpass: MIN_FILTER_HZ })}
+                  />
+                  <PadSlider
+                    label="Vel → bright"
+                    min={0}
+                    max={100}
+                    value={Math.round(modalPadSettings.velocityBrightness * 100)}
+                    display={`${Math.round(modalPadSettings.velocityBrightness * 100)}%`}
+                    onChange={pct => patchModalPad({ velocityBrightness: pct / 100 })}
+                  />
+                  <div className="text-xs text-muted-foreground">Tap the pad to hear changes; they are saved with this kit.</div>
+                </div>
+              )}
+
+              {modalPad && modalPadSettings && (
+                <div className="rounded-xl border border-border/70 bg-background/70 p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-[15px] sm:text-base font-semibold">Choke</div>
+                    <Button
+                      variant="ghost"
+                      size="xs"
+                      onClick={() => {
+                        resetPadSettings(modalPad, CHOKE_SETTING_KEYS);
+                        setModalPadSettings(getPadSettings(modalPad));
+                      }}
+                    >
+                      Kit default
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Group</span>
+                      <select
+                        value={modalPadSettings.chokeGroup ?? ''}
+                        onChange={e => patchModalPad({ chokeGroup: e.target.value ? Number(e.target.value) : null })}
+                        className="rounded-md border border-input bg-background px-2 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      >
+                        <option value="">None</option>
+                        {Array.from({ length: CHOKE_GROUP_COUNT }, (_, i) => i + 1).map(g => (
+                          <option key={g} value={g}>
+                            {g}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={modalPadSettings.selfChoke}
+                        onChange={e => patchModalPad({ selfChoke: e.target.checked })}
+                        className="h-4 w-4 accent-[hsl(var(--accent))]"
+                      />
+                      Self-choke (monophonic)
+                    </label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="w-10 text-xs text-muted-foreground">Fade</span>
+                    <input
+                      type="range"
+                      min={MIN_CHOKE_FADE * 1000}
+                      max={MAX_CHOKE_FADE * 1000}
+                      step={5}
+                      value={Math.round(modalPadSettings.chokeFade * 1000)}
+                      aria-label="Choke fade"
+                      onChange={e => patchModalPad({ chokeFade: Number(e.target.value) / 1000 })}
+                      className="slider flex-1"
+                      style={{ '--val': `${Math.round(((modalPadSettings.chokeFade - MIN_CHOKE_FADE) / (MAX_CHOKE_FADE - MIN_CHOKE_FADE)) * 100)}%` } as CSSProperties}
+                    />
+                    <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">
+                      {Math.round(modalPadSettings.chokeFade * 1000)} ms
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="flex w-28 shrink-0 items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={modalPadSettings.aftertouchChoke != null}
+                        onChange={e => patchModalPad({ aftertouchChoke: e.target.checked ? DEFAULT_AFTERTOUCH_CHOKE : null })}
+                        className="h-4 w-4 accent-[hsl(var(--accent))]"
+                      />
+                      Grab choke
+                    </label>
+                    <input
+                      type="range"
+                      min={1}
+                      max={127}
+                      step={1}
+                      value={modalPadSettings.aftertouchChoke ?? DEFAULT_AFTERTOUCH_CHOKE}
+                      disabled={modalPadSettings.aftertouchChoke == null}
+                      aria-label="Aftertouch choke threshold"
+                      onChange={e => patchModalPad({ aftertouchChoke: Number(e.target.value) })}
+                      className="slider flex-1 disabled:opacity-40"
+                      style={{ '--val': `${Math.round((((modalPadSettings.aftertouchChoke ?? DEFAULT_AFTERTOUCH_CHOKE) - 1) / 126) * 100)}%` } as CSSProperties}
+                    />
+                    <span className="w-16 text-right text-xs tabular-nums text-muted-foreground">
+                      {modalPadSettings.aftertouchChoke == null ? 'Off' : `≥ ${modalPadSettings.aftertouchChoke}`}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {modalPadSettings.chokeGroup == null
+                      ? 'Not in a choke group.'
+                      : (() => {
+                          const members = pads
+                            .filter(p => p.pad !== modalPad && getPadSettings(p.pad).chokeGroup === modalPadSettings.chokeGroup)
+                            .map(p => p.label);
+                          return members.length ? `Cuts and is cut by: ${members.join(', ')}.` : 'No other pads in this group yet.';
+                        })()}
+                  </div>
+                </div>
+              )}
+
               <div className="pt-1 min-h-6">
                 {conflictMidi && (
                   <div className="text-xs text-primary">
@@ -0,0 +1,211 @@
+import { CSSProperties, useEffect, useMemo, useRef, useState } from 'react';
+import { listDrumPads, DrumPad } from '../audio/sampler';
+import {
+  getMixSettings,
+  getPeak,
+  MAX_VOLUME_DB,
+  MIN_VOLUME_DB,
+  MeterTarget,
+  MixSettings,
+  resetMix,
+  setMasterVolume,
+  updateChannel,
+  DEFAULT_CHANNEL,
+  ChannelStrip,
+} from '../audio/mixer';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+// Meter falls back this fraction per frame after a peak
+const METER_DECAY = 0.9;
+
+function formatDb(db: number) {
+  if (db <= MIN_VOLUME_DB) return '-∞';
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)}`;
+}
+
+function volumePct(db: number) {
+  return Math.round(((db - MIN_VOLUME_DB) / (MAX_VOLUME_DB - MIN_VOLUME_DB)) * 100);
+}
+
+type MeterProps = {
+  register: (el: HTMLDivElement | null) => void;
+};
+
+function PeakMeter({ register }: MeterProps) {
+  return (
+    <div className="relative h-2 w-full overflow-hidden rounded-full bg-border/70">
+      <div
+        ref={register}
+        className="absolute inset-y-0 left-0 w-full origin-left bg-accent will-change-transform"
+        style={{ transform: 'scaleX(0)' }}
+      />
+    </div>
+  );
+}
+
+export default function MixerPanel() {
+  const pads = useMemo(() => listDrumPads(), []);
+  const [mix, setMix] = useState<MixSettings>(() => getMixSettings());
+  const meterEls = useRef<Map<MeterTarget, HTMLDivElement>>(new Map());
+  const meterLevels = useRef<Map<MeterTarget, number>>(new Map());
+
+  // Drive meters straight from the analysers; no React state per frame
+  useEffect(() => {
+    let raf = 0;
+    const tick = () => {
+      meterEls.current.forEach((el, target) => {
+        const held = (meterLevels.current.get(target) ?? 0) * METER_DECAY;
+        const level = Math.max(held, Math.min(1, getPeak(target)));
+        meterLevels.current.set(target, level);
+        el.style.transform = `scaleX(${level})`;
+        el.style.backgroundColor = level >= 0.99 ? 'hsl(var(--destructive))' : '';
+      });
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  const registerMeter = (target: MeterTarget) => (el: HTMLDivElement | null) => {
+    if (el) meterEls.current.set(target, el);
+    else meterEls.current.delete(target);
+  };
+
+  const channelFor = (pad: DrumPad): ChannelStrip => mix.channels[pad] ?? DEFAULT_CHANNEL;
+
+  const patchChannel = (pad: DrumPad, patch: Partial<ChannelStrip>) => {
+    updateChannel(pad, patch);
+    setMix(getMixSettings());
+  };
+
+  const soloActive = pads.some(p => channelFor(p.pad).solo);
+
+  return (
+    <Card className="relative overflow-hidden bg-card/85 backdrop-blur">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-display text-3xl">Mixer</CardTitle>
+            <CardDescription>Balance each pad, then trim the master bus.</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {soloActive && <Badge variant="accent">Solo</Badge>}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const ok = window.confirm('Reset all mixer levels, pans, mutes and solos?');
+                if (!ok) return;
+                resetMix();
+                setMix(getMixSettings());
+              }}
+            >
+              Reset mix
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pads.map(p => {
+          const ch = channelFor(p.pad);
+          const dimmed = ch.mute || (soloActive && !ch.solo);
+          return (
+            <div
+              key={p.pad}
+              className={
+                'grid grid-cols-[5.5rem_auto_1fr] sm:grid-cols-[5.5rem_auto_1fr_6rem_5rem] items-center gap-x-3 gap-y-1 rounded-xl border border-border/70 bg-background/70 px-3 py-2 ' +
+                (dimmed ? 'opacity-60' : '')
+              }
+            >
+              <div className="text-sm font-semibold truncate">{p.label}</div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant={ch.mute ? 'destructive' : 'outline'}
+                  size="xs"
+                  aria-pressed={ch.mute}
+                  aria-label={`Mute ${p.label}`}
+                  onClick={() => patchChannel(p.pad, { mute: !ch.mute })}
+                >
+                  M
+                </Button>
+                <Button
+                  variant={ch.solo ? 'accent' : 'outline'}
+                  size="xs"
+                  aria-pressed={ch.solo}
+                  aria-label={`Solo ${p.label}`}
+                  onClick={() => patchChannel(p.pad, { solo: !ch.solo })}
+                >
+                  S
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={MIN_VOLUME_DB}
+                  max={MAX_VOLUME_DB}
+                  step={0.5}
+                  value={ch.volume}
+                  aria-label={`${p.label} volume`}
+                  onChange={e => patchChannel(p.pad, { volume: Number(e.target.value) })}
+                  onDoubleClick={() => patchChannel(p.pad, { volume: DEFAULT_CHANNEL.volume })}
+                  className="slider flex-1"
+                  style={{ '--val': `${volumePct(ch.volume)}%` } as CSSProperties}
+                />
+                <span className="w-10 text-right text-xs tabular-nums text-muted-foreground">{formatDb(ch.volume)}</span>
+              </div>
+              <div className="col-span-3 sm:col-span-1 flex items-center gap-2">
+                <span className="text-[10px] text-muted-foreground">L</span>
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  value={ch.pan}
+                  aria-label={`${p.label} pan`}
+                  onChange={e => patchChannel(p.pad, { pan: Number(e.target.value) })}
+                  onDoubleClick={() => patchChannel(p.pad, { pan: 0 })}
+                  className="flex-1 accent-[hsl(var(--accent))]"
+                />
+                <span className="text-[10px] text-muted-foreground">R</span>
+              </div>
+              <div className="col-span-3 sm:col-span-1">
+                <PeakMeter register={registerMeter(p.pad)} />
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="grid grid-cols-[5.5rem_1fr] sm:grid-cols-[5.5rem_1fr_5rem] items-center gap-3 rounded-xl border border-accent/50 bg-accent/10 px-3 py-2">
+          <div className="text-sm font-semibold">Master</div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={MIN_VOLUME_DB}
+              max={MAX_VOLUME_DB}
+              step={0.5}
+              value={mix.masterVolume}
+              aria-label="Master volume"
+              onChange={e => {
+                setMasterVolume(Number(e.target.value));
+                setMix(getMixSettings());
+              }}
+              onDoubleClick={() => {
+                setMasterVolume(0);
+                setMix(getMixSettings());
+              }}
+              className="slider flex-1"
+              style={{ '--val': `${volumePct(mix.masterVolume)}%` } as CSSProperties}
+            />
+            <span className="w-10 text-right text-xs tabular-nums text-muted-foreground">{formatDb(mix.masterVolume)}</span>
+          </div>
+          <div className="col-span-2 sm:col-span-1">
+            <PeakMeter register={registerMeter('master')} />
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground">Double-click a slider to reset it. The master bus runs into a limiter to prevent clipping.</p>
+      </CardContent>
+    </Card>
+  );
+}
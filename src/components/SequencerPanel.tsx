@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import * as M from '../audio/metronome';
+import { listDrumPads, listGmPads, triggerPad } from '../audio/sampler';
+import {
+  createPattern,
+  getSequencerState,
+  listPatterns,
+  MAX_STEPS,
+  nextStepVelocity,
+  savePatterns,
+  SequencerPattern,
+  setSequencerEnabled,
+  setSequencerPattern,
+  setStep,
+  STEP_COUNTS,
+  STEP_RESOLUTIONS,
+  STEP_VELOCITIES,
+  StepResolution,
+  STEPS_PER_QUARTER,
+  subscribePatterns,
+  subscribeSequencer,
+} from '../audio/sequencer';
+import { on } from '../audio/transportEvents';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+const inputClass =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+const RESOLUTION_LABELS: Record<StepResolution, string> = {
+  '4n': '1/4',
+  '8n': '1/8',
+  '8t': '1/8 triplets',
+  '16n': '1/16',
+  '16t': '1/16 triplets',
+};
+
+const VELOCITY_LABELS = ['Normal', 'Accent', 'Ghost'];
+
+function stepClass(velocity: number, current: boolean, inPattern: boolean) {
+  const fill =
+    velocity >= STEP_VELOCITIES[1]
+      ? 'bg-accent border-accent'
+      : velocity >= STEP_VELOCITIES[0]
+        ? 'bg-accent/70 border-accent/70'
+        : velocity > 0
+          ? 'bg-accent/30 border-accent/50'
+          : 'bg-background border-input hover:bg-muted';
+  return `h-6 w-6 shrink-0 rounded border transition ${fill} ${current ? 'ring-2 ring-primary' : ''} ${inPattern ? '' : 'opacity-30'}`;
+}
+
+export default function SequencerPanel() {
+  const [patterns, setPatterns] = useState<SequencerPattern[]>(() => listPatterns());
+  const [selectedId, setSelectedId] = useState<string | null>(() => listPatterns()[0]?.id ?? null);
+  const [state, setState] = useState(() => getSequencerState());
+  const [running, setRunning] = useState(() => M.getState().isRunning);
+  const [allPads, setAllPads] = useState(false);
+
+  const pattern = patterns.find(p => p.id === selectedId) ?? null;
+
+  useEffect(() => {
+    const unsubscribe = [
+      subscribeSequencer(() => setState(getSequencerState())),
+      // Song mode can add patterns (on import)
+      subscribePatterns(() => setPatterns(listPatterns())),
+      on('start', () => setRunning(true)),
+      on('stop', () => setRunning(false)),
+    ];
+    return () => {
+      unsubscribe.forEach(fn => fn());
+      setSequencerPattern(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    setSequencerPattern(pattern);
+  }, [pattern]);
+
+  const persist = (next: SequencerPattern[]) => {
+    setPatterns(next);
+    savePatterns(next);
+  };
+
+  const updatePattern = (next: SequencerPattern) => persist(patterns.map(p => (p.id === next.id ? next : p)));
+
+  const addPattern = () => {
+    const created = createPattern(`Pattern ${patterns.length + 1}`);
+    persist([...patterns, created]);
+    setSelectedId(created.id);
+  };
+
+  const duplicatePattern = () => {
+    if (!pattern) return;
+    const copy = { ...createPattern(`${pattern.name} copy`), length: pattern.length, resolution: pattern.resolution, rows: { ...pattern.rows } };
+    persist([...patterns, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const removePattern = () => {
+    if (!pattern || !window.confirm(`Delete "${pattern.name}"?`)) return;
+    const next = patterns.filter(p => p.id !== pattern.id);
+    persist(next);
+    setSelectedId(next[0]?.id ?? null);
+  };
+
+  // Play starts the metronome with the pattern; Stop stops both
+  const togglePlay = async () => {
+    if (running && state.enabled) {
+      M.stop();
+      return;
+    }
+    setSequencerEnabled(true);
+    if (!running) await M.start();
+  };
+
+  // Pads of the kit, plus any other pad the pattern already uses
+  const kitPads = allPads ? listGmPads() : listDrumPads();
+  const rows = [...kitPads, ...(pattern ? listGmPads().filter(p => pattern.rows[p.pad] && !kitPads.some(k => k.pad === p.pad)) : [])];
+  const gridSteps = pattern ? STEP_COUNTS.find(n => n >= pattern.length) ?? MAX_STEPS : STEP_COUNTS[0];
+  const stepsPerQuarter = pattern ? STEPS_PER_QUARTER[pattern.resolution] : 4;
+
+  return (
+    <Card className="relative overflow-hidden bg-card/85 backdrop-blur">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-display text-3xl">Step sequencer</CardTitle>
+            <CardDescription>Program a groove to play along with, on the metronome's clock.</CardDescription>
+          </div>
+          {state.enabled && !state.track && running && state.step != null && (
+            <Badge variant="accent" className="tabular-nums">
+              Step {state.step + 1}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId ?? ''}
+            aria-label="Pattern"
+            onChange={e => setSelectedId(e.target.value || null)}
+            className={`${inputClass} min-w-[8rem] flex-1`}
+          >
+            {patterns.length === 0 && <option value="">No patterns yet</option>}
+            {patterns.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="xs" onClick={addPattern}>
+            New
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!pattern} onClick={duplicatePattern}>
+            Duplicate
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!pattern} onClick={removePattern}>
+            Delete
+          </Button>
+        </div>
+
+        {pattern && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={pattern.name}
+                aria-label="Pattern name"
+                onChange={e => updatePattern({ ...pattern, name: e.target.value })}
+                className={`${inputClass} min-w-[8rem] flex-1 text-sm`}
+              />
+              <Button variant={running && state.enabled ? 'destructive' : 'accent'} size="sm" onClick={() => void togglePlay()}>
+                {running && state.enabled ? 'Stop' : 'Play'}
+              </Button>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={state.enabled}
+                  onChange={e => setSequencerEnabled(e.target.checked)}
+                  className="h-4 w-4 accent-[hsl(var(--accent))]"
+                />
+                Play with the metronome
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground">
+              <label className="flex items-center gap-2">
+                Steps
+                <select
+                  value={pattern.length}
+                  aria-label="Pattern length"
+                  onChange={e => updatePattern({ ...pattern, length: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {new Array(MAX_STEPS).fill(0).map((_, i) => (
+                    <option key={i + 1} value={i + 1}>
+                      {i + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Resolution
+                <select
+                  value={pattern.resolution}
+                  aria-label="Step resolution"
+                  onChange={e => updatePattern({ ...pattern, resolution: e.target.value as StepResolution })}
+                  className={inputClass}
+                >
+                  {STEP_RESOLUTIONS.map(r => (
+                    <option key={r} value={r}>
+                      {RESOLUTION_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={allPads} onChange={e => setAllPads(e.target.checked)} className="h-4 w-4 accent-[hsl(var(--accent))]" />
+                All GM pads
+              </label>
+            </div>
+
+            <div className="overflow-x-auto rounded-xl border border-border/70 bg-background/70 p-3">
+              <div className="inline-flex min-w-full flex-col gap-1">
+                {rows.map(({ pad, label }) => {
+                  const steps = pattern.rows[pad];
+                  return (
+                    <div key={pad} className="flex items-center gap-1">
+                      <button
+                        onClick={() => void triggerPad(pad, STEP_VELOCITIES[0])}
+                        className="w-24 shrink-0 truncate text-left text-xs text-muted-foreground hover:text-foreground"
+                        title={`Play ${label}`}
+                      >
+                        {label}
+                      </button>
+                      {new Array(gridSteps).fill(0).map((_, i) => {
+                        const velocity = steps?.[i] ?? 0;
+                        const level = STEP_VELOCITIES.indexOf(velocity);
+                        return (
+                          <button
+                            key={i}
+                            disabled={i >= pattern.length}
+                            onClick={() => updatePattern(setStep(pattern, pad, i, nextStepVelocity(velocity)))}
+                            className={`${stepClass(velocity, state.enabled && !state.track && running && state.step === i, i < pattern.length)} ${i > 0 && i % stepsPerQuarter === 0 ? 'ml-1.5' : ''}`}
+                            aria-label={`${label} step ${i + 1}`}
+                            title={velocity > 0 ? `${level >= 0 ? VELOCITY_LABELS[level] : 'Velocity'} (${velocity})` : `Step ${i + 1}`}
+                          />
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click a step to cycle off → normal → accent → ghost. Steps follow the metronome's beat, so a 1/16 pattern plays four steps per click.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
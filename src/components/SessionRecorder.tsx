@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import {
+  isRecordingSupported,
+  isSessionRecording,
+  recordingElapsed,
+  startSessionRecording,
+  stopSessionRecording,
+} from '../audio/sessionRecorder';
+import { decodeTake, deleteTake, listTakes, saveTake, Take, takeExtension, takeToCompressed, takeToWav } from '../audio/takes';
+import { downloadBlob } from '../lib/wav';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+// Wait this long after the last trim change before writing the take back
+const TRIM_SAVE_DELAY_MS = 400;
+
+function formatTime(seconds: number) {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+}
+
+function fileName(take: Take, ext: string) {
+  return `${take.name.replace(/[^\w-]+/g, '-').replace(/-+$/, '')}.${ext}`;
+}
+
+type WaveformProps = {
+  peaks: number[];
+  start: number; // 0..1 of the take
+  end: number;
+};
+
+// Take overview; the trimmed-away parts are drawn dimmed
+function Waveform({ peaks, start, end }: WaveformProps) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = ref.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const width = (canvas.width = canvas.clientWidth * devicePixelRatio);
+    const height = (canvas.height = canvas.clientHeight * devicePixelRatio);
+    const styles = getComputedStyle(canvas);
+    const accent = `hsl(${styles.getPropertyValue('--accent').trim()})`;
+    const muted = `hsl(${styles.getPropertyValue('--muted-foreground').trim()} / 0.35)`;
+    ctx.clearRect(0, 0, width, height);
+    const step = width / Math.max(1, peaks.length);
+    peaks.forEach((peak, i) => {
+      const pos = (i + 0.5) / peaks.length;
+      ctx.fillStyle = pos >= start && pos <= end ? accent : muted;
+      const h = Math.max(1, peak * height);
+      ctx.fillRect(i * step, (height - h) / 2, Math.max(1, step - 1), h);
+    });
+  }, [peaks, start, end]);
+
+  return <canvas ref={ref} className="h-16 w-full rounded-md bg-background/80" />;
+}
+
+export default function SessionRecorder() {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [includeClick, setIncludeClick] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null); // what is running, for the status line
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<Tone.ToneBufferSource | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refresh = useCallback(() => {
+    listTakes()
+      .then(setTakes)
+      .catch(e => setError(e?.message || String(e)));
+  }, []);
+
+  useEffect(() => refresh(), [refresh]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const id = setInterval(() => setElapsed(recordingElapsed()), 100);
+    return () => clearInterval(id);
+  }, [recording]);
+
+  const stopPreview = () => {
+    previewRef.current?.stop();
+    previewRef.current = null;
+    setPlayingId(null);
+  };
+
+  useEffect(() => () => {
+    previewRef.current?.stop();
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+  }, []);
+
+  const toggleRecording = async () => {
+    setError(null);
+    try {
+      if (isSessionRecording()) {
+        setRecording(false);
+        setBusy('Saving take…');
+        const take = await stopSessionRecording();
+        if (take) {
+          setTakes(prev => [take, ...prev]);
+          setSelectedId(take.id);
+        }
+      } else {
+        stopPreview();
+        await startSessionRecording({ includeClick });
+        setElapsed(0);
+        setRecording(true);
+      }
+    } catch (e) {
+      setRecording(isSessionRecording());
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const patchTake = (take: Take, patch: Partial<Take>) => {
+    const next = { ...take, ...patch };
+    setTakes(prev => prev.map(t => (t.id === take.id ? next : t)));
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      saveTake(next).catch(e => setError(e?.message || String(e)));
+    }, TRIM_SAVE_DELAY_MS);
+  };
+
+  const preview = async (take: Take) => {
+    if (playingId === take.id) {
+      stopPreview();
+      return;
+    }
+    stopPreview();
+    try {
+      const buffer = await decodeTake(take);
+      // Straight to the speakers, so previews never end up in a new take
+      const source = new Tone.ToneBufferSource(buffer).toDestination();
+      source.onended = () => {
+        if (previewRef.current === source) stopPreview();
+        source.dispose();
+      };
+      previewRef.current = source;
+      setPlayingId(take.id);
+      source.start(Tone.immediate(), take.trimStart, take.trimEnd - take.trimStart);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportTake = async (take: Take, format: 'wav' | 'compressed') => {
+    setError(null);
+    setBusy(format === 'wav' ? 'Writing WAV…' : 'Encoding…');
+    try {
+      if (format === 'wav') downloadBlob(await takeToWav(take), fileName(take, 'wav'));
+      else downloadBlob(await takeToCompressed(take), fileName(take, takeExtension(take)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const removeTake = async (take: Take) => {
+    if (!window.confirm(`Delete "${take.name}"?`)) return;
+    if (playingId === take.id) stopPreview();
+    try {
+      await deleteTake(take.id);
+      setTakes(prev => prev.filter(t => t.id !== take.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const supported = isRecordingSupported();
+
+  return (
+    <Card className="relative overflow-hidden bg-card/85 backdrop-blur">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-display text-3xl">Recorder</CardTitle>
+            <CardDescription>Capture what you play, then trim and export it.</CardDescription>
+          </div>
+          {recording && <Badge variant="accent">REC {formatTime(elapsed)}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            variant={recording ? 'destructive' : 'accent'}
+            size="sm"
+            disabled={!supported || (busy != null && !recording)}
+            onClick={toggleRecording}
+          >
+            {recording ? 'Stop' : 'Record'}
+          </Button>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeClick}
+              disabled={recording}
+              onChange={e => setIncludeClick(e.target.checked)}
+              className="h-4 w-4 accent-[hsl(var(--accent))]"
+            />
+            Include metronome
+          </label>
+          {busy && <span className="text-xs text-muted-foreground">{busy}</span>}
+        </div>
+        {!supported && <p className="text-sm text-muted-foreground">This browser cannot record audio.</p>}
+
+        {takes.length === 0 && supported && <p className="text-sm text-muted-foreground">No takes yet.</p>}
+        <div className="space-y-2">
+          {takes.map(take => {
+            const selected = take.id === selectedId;
+            return (
+              <div key={take.id} className="space-y-2 rounded-xl border border-border/70 bg-background/70 px-3 py-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button className="min-w-0 flex-1 truncate text-left text-sm font-semibold" onClick={() => setSelectedId(selected ? null : take.id)}>
+                    {take.name}
+                  </button>
+                  <span className="text-xs tabular-nums text-muted-foreground">{formatTime(take.trimEnd - take.trimStart)}</span>
+                  {take.withClick && <Badge variant="outline">Click</Badge>}
+                  <Button variant="outline" size="xs" onClick={() => preview(take)}>
+                    {playingId === take.id ? 'Stop' : 'Play'}
+                  </Button>
+                  <Button variant="ghost" size="xs" disabled={busy != null} onClick={() => exportTake(take, 'wav')}>
+                    WAV
+                  </Button>
+                  <Button variant="ghost" size="xs" disabled={busy != null} onClick={() => exportTake(take, 'compressed')}>
+                    {takeExtension(take).toUpperCase()}
+                  </Button>
+                  <Button variant="ghost" size="xs" onClick={() => removeTake(take)}>
+                    Delete
+                  </Button>
+                </div>
+                {selected && (
+                  <div className="space-y-2">
+                    <Waveform peaks={take.peaks} start={take.trimStart / take.duration} end={take.trimEnd / take.duration} />
+                    <div className="flex items-center gap-2">
+                      <span className="w-10 text-xs text-muted-foreground">Start</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={take.duration}
+                        step={0.01}
+                        value={take.trimStart}
+                        aria-label="Trim start"
+                        onChange={e => patchTake(take, { trimStart: Math.min(Number(e.target.value), take.trimEnd - 0.05) })}
+                        className="flex-1 accent-[hsl(var(--accent))]"
+                      />
+                      <span className="w-12 text-right text-xs tabular-nums text-muted-foreground">{formatTime(take.trimStart)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="w-10 text-xs text-muted-foreground">End</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={take.duration}
+                        step={0.01}
+                        value={take.trimEnd}
+                        aria-label="Trim end"
+                        onChange={e => patchTake(take, { trimEnd: Math.max(Number(e.target.value), take.trimStart + 0.05) })}
+                        className="flex-1 accent-[hsl(var(--accent))]"
+                      />
+                      <span className="w-12 text-right text-xs tabular-nums text-muted-foreground">{formatTime(take.trimEnd)}</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {error && <div className="text-sm text-destructive">{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
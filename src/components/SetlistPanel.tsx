@@ -0,0 +1,421 @@
+import { useEffect, useRef, useState } from 'react';
+import * as M from '../audio/metronome';
+import {
+  createSection,
+  createSetlist,
+  createSong,
+  cueSong,
+  exportSetlist,
+  getSetlistPlayback,
+  importSetlist,
+  listSetlists,
+  MAX_COUNT_IN_BARS,
+  MAX_SECTION_BARS,
+  NEXT_SONG_SHORTCUT,
+  nextSong,
+  playSong,
+  saveSetlists,
+  sectionAccents,
+  Setlist,
+  SetlistSection,
+  SetlistSong,
+  setNextSongHandler,
+  songBars,
+  stopSetlist,
+  subscribeSetlist,
+} from '../audio/setlist';
+import MidiControlBinding from './MidiControlBinding';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+
+const inputClass =
+  'h-8 rounded-md border border-input bg-background px-2 text-xs shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring';
+
+type NumberInputProps = {
+  value: number;
+  min: number;
+  max: number;
+  label: string;
+  className?: string;
+  onCommit: (value: number) => void;
+};
+
+// Committed on blur/Enter so typing "120" does not clamp at "1"
+function NumberInput({ value, min, max, label, className = '', onCommit }: NumberInputProps) {
+  return (
+    <input
+      key={value}
+      type="number"
+      min={min}
+      max={max}
+      defaultValue={value}
+      aria-label={label}
+      onBlur={e => {
+        const v = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(v)) onCommit(Math.max(min, Math.min(max, Math.round(v))));
+        else e.target.value = String(value);
+      }}
+      onKeyDown={e => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className={`${inputClass} ${className}`}
+    />
+  );
+}
+
+function move<T>(items: T[], from: number, to: number) {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+type SectionRowProps = {
+  section: SetlistSection;
+  onChange: (patch: Partial<SetlistSection>) => void;
+  onRemove: (() => void) | null;
+};
+
+function SectionRow({ section, onChange, onRemove }: SectionRowProps) {
+  // A section without accents of its own keeps following its signature's default
+  const changeBeats = (beats: number) => {
+    const own = section.accents;
+    onChange({ beats, accents: own && new Array(beats).fill(false).map((_, i) => own[i] ?? false) });
+  };
+  const accents = sectionAccents(section);
+  return (
+    <div className="space-y-2 rounded-lg border border-border/60 bg-background/80 p-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={section.name}
+          aria-label="Section name"
+          onChange={e => onChange({ name: e.target.value })}
+          className={`${inputClass} w-28`}
+        />
+        <NumberInput value={section.bars} min={1} max={MAX_SECTION_BARS} label="Bars" className="w-16" onCommit={bars => onChange({ bars })} />
+        <span className="text-xs text-muted-foreground">bars at</span>
+        <NumberInput value={section.bpm} min={M.MIN_BPM} max={M.MAX_BPM} label="BPM" className="w-16" onCommit={bpm => onChange({ bpm })} />
+        <span className="text-xs text-muted-foreground">BPM in</span>
+        <select value={section.beats} aria-label="Beats per bar" onChange={e => changeBeats(Number(e.target.value))} className={inputClass}>
+          {new Array(M.MAX_BEATS_PER_BAR).fill(0).map((_, i) => (
+            <option key={i + 1} value={i + 1}>
+              {i + 1}
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground">/</span>
+        <select
+          value={section.beatUnit}
+          aria-label="Beat unit"
+          onChange={e => onChange({ beatUnit: Number(e.target.value) as M.BeatUnit })}
+          className={inputClass}
+        >
+          {M.BEAT_UNITS.map(n => (
+            <option key={n} value={n}>
+              {n}
+            </option>
+          ))}
+        </select>
+        {onRemove && (
+          <Button variant="ghost" size="xs" className="ml-auto" onClick={onRemove}>
+            Remove
+          </Button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="mr-1 text-xs text-muted-foreground">Accents</span>
+        {accents.map((on, i) => (
+          <button
+            key={i}
+            onClick={() => onChange({ accents: accents.map((a, j) => (j === i ? !a : a)) })}
+            className={
+              'h-5 w-5 rounded-full border text-[10px] transition ' +
+              (on ? 'bg-accent border-accent/80 text-accent-foreground' : 'bg-background border-input text-muted-foreground hover:bg-muted') +
+              (section.accents ? '' : ' opacity-60')
+            }
+            aria-label={`Toggle accent on beat ${i + 1}`}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function SetlistPanel() {
+  const [setlists, setSetlists] = useState<Setlist[]>(() => listSetlists());
+  const [selectedId, setSelectedId] = useState<string | null>(() => listSetlists()[0]?.id ?? null);
+  const [openSongId, setOpenSongId] = useState<string | null>(null);
+  const [playback, setPlayback] = useState(() => getSetlistPlayback());
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+
+  const setlist = setlists.find(s => s.id === selectedId) ?? null;
+  const setlistRef = useRef<Setlist | null>(setlist);
+  setlistRef.current = setlist;
+
+  useEffect(() => {
+    const unsubscribe = subscribeSetlist(() => setPlayback(getSetlistPlayback()));
+    setNextSongHandler(() => {
+      if (setlistRef.current) nextSong(setlistRef.current);
+    });
+    const handleDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      if (e.key.toLowerCase() !== NEXT_SONG_SHORTCUT || !setlistRef.current) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      e.preventDefault();
+      nextSong(setlistRef.current);
+    };
+    window.addEventListener('keydown', handleDown);
+    return () => {
+      unsubscribe();
+      setNextSongHandler(null);
+      window.removeEventListener('keydown', handleDown);
+    };
+  }, []);
+
+  const persist = (next: Setlist[]) => {
+    setSetlists(next);
+    saveSetlists(next);
+  };
+
+  const updateSetlist = (next: Setlist) => persist(setlists.map(s => (s.id === next.id ? next : s)));
+
+  const updateSong = (songId: string, patch: Partial<SetlistSong>) => {
+    if (!setlist) return;
+    updateSetlist({ ...setlist, songs: setlist.songs.map(s => (s.id === songId ? { ...s, ...patch } : s)) });
+  };
+
+  const updateSection = (song: SetlistSong, sectionId: string, patch: Partial<SetlistSection>) => {
+    updateSong(song.id, { sections: song.sections.map(s => (s.id === sectionId ? { ...s, ...patch } : s)) });
+  };
+
+  const addSetlist = () => {
+    const created = createSetlist(`Setlist ${setlists.length + 1}`);
+    persist([...setlists, created]);
+    setSelectedId(created.id);
+    setOpenSongId(created.songs[0].id);
+  };
+
+  const removeSetlist = () => {
+    if (!setlist || !window.confirm(`Delete "${setlist.name}"?`)) return;
+    if (playback?.setlistId === setlist.id) stopSetlist();
+    const next = setlists.filter(s => s.id !== setlist.id);
+    persist(next);
+    setSelectedId(next[0]?.id ?? null);
+  };
+
+  const importFile = async (file: File) => {
+    setError(null);
+    try {
+      const imported = await importSetlist(file);
+      persist([...setlists, imported]);
+      setSelectedId(imported.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const addSong = () => {
+    if (!setlist) return;
+    const song = createSong(`Song ${setlist.songs.length + 1}`);
+    updateSetlist({ ...setlist, songs: [...setlist.songs, song] });
+    setOpenSongId(song.id);
+  };
+
+  const removeSong = (song: SetlistSong) => {
+    if (!setlist || !window.confirm(`Remove "${song.name}" from the setlist?`)) return;
+    if (playback?.setlistId === setlist.id) stopSetlist();
+    updateSetlist({ ...setlist, songs: setlist.songs.filter(s => s.id !== song.id) });
+  };
+
+  const active = playback && setlist && playback.setlistId === setlist.id ? playback : null;
+  const status = active?.status;
+
+  return (
+    <Card className="relative overflow-hidden bg-card/85 backdrop-blur">
+      <CardHeader className="pb-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="font-display text-3xl">Setlist</CardTitle>
+            <CardDescription>Songs as tempo maps, played section by section.</CardDescription>
+          </div>
+          {active?.playing && status && (
+            <Badge variant="accent">{status.countIn ? `Count-in ${status.bar}/${status.bars}` : `${status.label} ${status.bar}/${status.bars}`}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={selectedId ?? ''}
+            aria-label="Setlist"
+            onChange={e => setSelectedId(e.target.value || null)}
+            className={`${inputClass} min-w-[8rem] flex-1`}
+          >
+            {setlists.length === 0 && <option value="">No setlists yet</option>}
+            {setlists.map(s => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="xs" onClick={addSetlist}>
+            New
+          </Button>
+          <Button variant="ghost" size="xs" onClick={() => importRef.current?.click()}>
+            Import…
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!setlist} onClick={() => setlist && exportSetlist(setlist)}>
+            Export
+          </Button>
+          <Button variant="ghost" size="xs" disabled={!setlist} onClick={removeSetlist}>
+            Delete
+          </Button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+
+        {setlist && (
+          <>
+            <input
+              value={setlist.name}
+              aria-label="Setlist name"
+              onChange={e => updateSetlist({ ...setlist, name: e.target.value })}
+              className={`${inputClass} w-full text-sm`}
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="accent" size="sm" disabled={!setlist.songs.length} onClick={() => nextSong(setlist)}>
+                {active?.played || active?.playing ? 'Next song' : 'Start'}
+              </Button>
+              <Button variant="outline" size="sm" disabled={!active?.playing} onClick={stopSetlist}>
+                Stop
+              </Button>
+              <span className="text-xs text-muted-foreground">Key: {NEXT_SONG_SHORTCUT.toUpperCase()}</span>
+              <MidiControlBinding action="nextSong" />
+            </div>
+
+            <div className="space-y-2">
+              {setlist.songs.map((song, index) => {
+                const isCurrent = active?.songIndex === index;
+                const open = openSongId === song.id;
+                return (
+                  <div
+                    key={song.id}
+                    className={
+                      'space-y-2 rounded-xl border px-3 py-2 ' +
+                      (isCurrent ? 'border-accent/70 bg-accent/10' : 'border-border/70 bg-background/70')
+                    }
+                  >
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="w-5 text-xs tabular-nums text-muted-foreground">{index + 1}</span>
+                      <input
+                        value={song.name}
+                        aria-label="Song name"
+                        onChange={e => updateSong(song.id, { name: e.target.value })}
+                        className={`${inputClass} min-w-0 flex-1 text-sm font-semibold`}
+                      />
+                      <span className="text-xs tabular-nums text-muted-foreground">{songBars(song)} bars</span>
+                      <Button
+                        variant={isCurrent && active?.playing ? 'destructive' : 'outline'}
+                        size="xs"
+                        onClick={() => (isCurrent && active?.playing ? stopSetlist() : playSong(setlist, index))}
+                      >
+                        {isCurrent && active?.playing ? 'Stop' : 'Play'}
+                      </Button>
+                      <Button variant="ghost" size="xs" disabled={isCurrent && !active?.played} onClick={() => cueSong(setlist, index)}>
+                        Cue
+                      </Button>
+                      <Button variant="ghost" size="xs" onClick={() => setOpenSongId(open ? null : song.id)}>
+                        {open ? 'Done' : 'Edit'}
+                      </Button>
+                    </div>
+                    {open && (
+                      <div className="space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                            Count-in
+                            <select
+                              value={song.countInBars}
+                              aria-label="Count-in bars"
+                              onChange={e => updateSong(song.id, { countInBars: Number(e.target.value) })}
+                              className={inputClass}
+                            >
+                              {new Array(MAX_COUNT_IN_BARS + 1).fill(0).map((_, i) => (
+                                <option key={i} value={i}>
+                                  {i === 0 ? 'None' : `${i} bar${i === 1 ? '' : 's'}`}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <div className="ml-auto flex items-center gap-1">
+                            <Button variant="ghost" size="xs" disabled={index === 0} onClick={() => updateSetlist({ ...setlist, songs: move(setlist.songs, index, index - 1) })}>
+                              Up
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="xs"
+                              disabled={index === setlist.songs.length - 1}
+                              onClick={() => updateSetlist({ ...setlist, songs: move(setlist.songs, index, index + 1) })}
+                            >
+                              Down
+                            </Button>
+                            <Button variant="ghost" size="xs" onClick={() => removeSong(song)}>
+                              Remove
+                            </Button>
+                          </div>
+                        </div>
+                        {song.sections.map(section => (
+                          <SectionRow
+                            key={section.id}
+                            section={section}
+                            onChange={patch => updateSection(song, section.id, patch)}
+                            onRemove={
+                              song.sections.length > 1
+                                ? () => updateSong(song.id, { sections: song.sections.filter(s => s.id !== section.id) })
+                                : null
+                            }
+                          />
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="xs"
+                          onClick={() => {
+                            // Carry on where the last section left off
+                            const last = song.sections[song.sections.length - 1];
+                            const added = createSection(last ? { name: 'Chorus', bpm: last.bpm, beats: last.beats, beatUnit: last.beatUnit, accents: last.accents } : {});
+                            updateSong(song.id, { sections: [...song.sections, added] });
+                          }}
+                        >
+                          Add section
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <Button variant="outline" size="xs" onClick={addSong}>
+                Add song
+              </Button>
+            </div>
+          </>
+        )}
+        {error && <div className="text-sm text-destructive">{error}</div>}
+      </CardContent>
+    </Card>
+  );
+}
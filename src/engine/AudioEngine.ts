@@ -1,29 +1,59 @@
 export type NoteName = string; // e.g., "C1", "D1", "F#1"
 export type MidiNumber = number; // e.g., 36 (Kick), 38 (Snare)
 
+// Per-hit sound shaping; engines apply what they can
+export type VoiceShape = {
+  pitch?: number; // semitones, fractional for cents
+  decay?: number | null; // seconds before the release starts; null = natural length
+  release?: number; // seconds
+  lowpass?: number; // Hz
+  highpass?: number; // Hz
+  velocityBrightness?: number; // 0..1: how much darker soft hits get
+};
+
 export type PlayOptions = {
   velocity?: number; // 0-127
   time?: number; // AudioContext time or performance.now ms depending on engine
+  openness?: number; // hi-hat pedal position 0 (closed) .. 1 (open); engines without hat articulations ignore it
+  shape?: VoiceShape;
+};
+
+export type StopOptions = {
+  time?: number; // same clock as PlayOptions.time
+  fade?: number; // seconds to fade out instead of the engine's own release
 };
 
 export interface AudioEngine {
   init(): Promise<void> | void;
   play(note: NoteName | MidiNumber, options?: PlayOptions): void;
-  stop(note: NoteName | MidiNumber): void;
+  stop(note: NoteName | MidiNumber, options?: StopOptions): void;
   isReady?: () => boolean;
+  dispose?: () => void;
 }
 
+export type MockEngineCall =
+  | { type: 'init' }
+  | { type: 'play'; note: NoteName | MidiNumber; options: PlayOptions }
+  | { type: 'stop'; note: NoteName | MidiNumber; options: StopOptions };
+
+// Records every call so component tests can assert on what the UI asked for
 export class MockEngine implements AudioEngine {
   private ready = true;
-  init() {}
+  calls: MockEngineCall[] = [];
+  init() {
+    this.calls.push({ type: 'init' });
+  }
   play(note: NoteName | MidiNumber, options: PlayOptions = {}) {
-    const { velocity = 100 } = options;
-    // eslint-disable-next-line no-console
-    console.log(`[MockEngine] play ${note} vel=${velocity}`);
+    this.calls.push({ type: 'play', note, options });
+  }
+  stop(note: NoteName | MidiNumber, options: StopOptions = {}) {
+    this.calls.push({ type: 'stop', note, options });
+  }
+  played() {
+    return this.calls.filter(c => c.type === 'play');
   }
-  stop(note: NoteName | MidiNumber) {
-    // eslint-disable-next-line no-console
-    console.log(`[MockEngine] stop ${note}`);
+  reset() {
+    this.calls = [];
   }
   isReady = () => this.ready;
 }
@@ -1,6 +1,7 @@
-// General MIDI Percussion Key Map (subset)
+// General MIDI Percussion Key Map (notes 35-81)
 // Values are MIDI note numbers on channel 10
 export enum DrumNote {
+  AcousticKick = 35,
   Kick = 36,
   SideStick = 37,
   Snare = 38,
@@ -17,10 +18,43 @@ export enum DrumNote {
   Crash1 = 49,
   HighTom = 50,
   Ride1 = 51,
+  China = 52,
   RideBell = 53,
+  Tambourine = 54,
+  Splash = 55,
+  Cowbell = 56,
+  Crash2 = 57,
+  Vibraslap = 58,
+  Ride2 = 59,
+  HiBongo = 60,
+  LowBongo = 61,
+  MuteHiConga = 62,
+  OpenHiConga = 63,
+  LowConga = 64,
+  HighTimbale = 65,
+  LowTimbale = 66,
+  HighAgogo = 67,
+  LowAgogo = 68,
+  Cabasa = 69,
+  Maracas = 70,
+  ShortWhistle = 71,
+  LongWhistle = 72,
+  ShortGuiro = 73,
+  LongGuiro = 74,
+  Claves = 75,
+  HiWoodBlock = 76,
+  LowWoodBlock = 77,
+  MuteCuica = 78,
+  OpenCuica = 79,
+  MuteTriangle = 80,
+  OpenTriangle = 81,
 }
 
+export const GM_FIRST_NOTE = DrumNote.AcousticKick;
+export const GM_LAST_NOTE = DrumNote.OpenTriangle;
+
 export const DRUM_LABELS: Record<DrumNote, string> = {
+  [DrumNote.AcousticKick]: 'Kick 2',
   [DrumNote.Kick]: 'Kick',
   [DrumNote.SideStick]: 'Rim',
   [DrumNote.Snare]: 'Snare',
@@ -37,8 +71,75 @@ export const DRUM_LABELS: Record<DrumNote, string> = {
   [DrumNote.Crash1]: 'Crash',
   [DrumNote.HighTom]: 'High Tom',
   [DrumNote.Ride1]: 'Ride',
+  [DrumNote.China]: 'China',
   [DrumNote.RideBell]: 'Ride Bell',
+  [DrumNote.Tambourine]: 'Tambourine',
+  [DrumNote.Splash]: 'Splash',
+  [DrumNote.Cowbell]: 'Cowbell',
+  [DrumNote.Crash2]: 'Crash 2',
+  [DrumNote.Vibraslap]: 'Vibraslap',
+  [DrumNote.Ride2]: 'Ride 2',
+  [DrumNote.HiBongo]: 'Bongo H',
+  [DrumNote.LowBongo]: 'Bongo L',
+  [DrumNote.MuteHiConga]: 'Conga H (M)',
+  [DrumNote.OpenHiConga]: 'Conga H',
+  [DrumNote.LowConga]: 'Conga L',
+  [DrumNote.HighTimbale]: 'Timbale H',
+  [DrumNote.LowTimbale]: 'Timbale L',
+  [DrumNote.HighAgogo]: 'Agogo H',
+  [DrumNote.LowAgogo]: 'Agogo L',
+  [DrumNote.Cabasa]: 'Cabasa',
+  [DrumNote.Maracas]: 'Maracas',
+  [DrumNote.ShortWhistle]: 'Whistle S',
+  [DrumNote.LongWhistle]: 'Whistle L',
+  [DrumNote.ShortGuiro]: 'Guiro S',
+  [DrumNote.LongGuiro]: 'Guiro L',
+  [DrumNote.Claves]: 'Claves',
+  [DrumNote.HiWoodBlock]: 'Wood Block H',
+  [DrumNote.LowWoodBlock]: 'Wood Block L',
+  [DrumNote.MuteCuica]: 'Cuica (M)',
+  [DrumNote.OpenCuica]: 'Cuica',
+  [DrumNote.MuteTriangle]: 'Triangle (M)',
+  [DrumNote.OpenTriangle]: 'Triangle',
 };
 
-export type MidiNumber = number;
-
+// Closest sound to play when a kit lacks a note. Following the chain always
+// ends on one of the eleven core kit pieces, which have no fallback.
+export const DRUM_FALLBACK: Partial<Record<DrumNote, DrumNote>> = {
+  [DrumNote.AcousticKick]: DrumNote.Kick,
+  [DrumNote.Clap]: DrumNote.Snare,
+  [DrumNote.ElectricSnare]: DrumNote.Snare,
+  [DrumNote.HighFloorTom]: DrumNote.LowFloorTom,
+  [DrumNote.LowMidTom]: DrumNote.LowTom,
+  [DrumNote.HighTom]: DrumNote.HiMidTom,
+  [DrumNote.China]: DrumNote.Crash1,
+  [DrumNote.RideBell]: DrumNote.Ride1,
+  [DrumNote.Tambourine]: DrumNote.ClosedHat,
+  [DrumNote.Splash]: DrumNote.Crash2,
+  [DrumNote.Cowbell]: DrumNote.RideBell,
+  [DrumNote.Crash2]: DrumNote.Crash1,
+  [DrumNote.Vibraslap]: DrumNote.Maracas,
+  [DrumNote.Ride2]: DrumNote.Ride1,
+  [DrumNote.HiBongo]: DrumNote.HighTom,
+  [DrumNote.LowBongo]: DrumNote.HiBongo,
+  [DrumNote.MuteHiConga]: DrumNote.OpenHiConga,
+  [DrumNote.OpenHiConga]: DrumNote.LowConga,
+  [DrumNote.LowConga]: DrumNote.LowTom,
+  [DrumNote.HighTimbale]: DrumNote.LowTimbale,
+  [DrumNote.LowTimbale]: DrumNote.HighTom,
+  [DrumNote.HighAgogo]: DrumNote.LowAgogo,
+  [DrumNote.LowAgogo]: DrumNote.Cowbell,
+  [DrumNote.Cabasa]: DrumNote.Maracas,
+  [DrumNote.Maracas]: DrumNote.Tambourine,
+  [DrumNote.ShortWhistle]: DrumNote.LongWhistle,
+  [DrumNote.LongWhistle]: DrumNote.OpenTriangle,
+  [DrumNote.ShortGuiro]: DrumNote.LongGuiro,
+  [DrumNote.LongGuiro]: DrumNote.Cabasa,
+  [DrumNote.Claves]: DrumNote.HiWoodBlock,
+  [DrumNote.HiWoodBlock]: DrumNote.LowWoodBlock,
+  [DrumNote.LowWoodBlock]: DrumNote.SideStick,
+  [DrumNote.MuteCuica]: DrumNote.OpenCuica,
+  [DrumNote.OpenCuica]: DrumNote.HiBongo,
+  [DrumNote.MuteTriangle]: DrumNote.OpenTriangle,
+  [DrumNote.OpenTriangle]: DrumNote.RideBell,
+};
@@ -0,0 +1,160 @@
+import * as Tone from 'tone';
+import { AudioEngine, MidiNumber, NoteName, PlayOptions, StopOptions, VoiceShape } from './AudioEngine';
+import { DrumPad, noteToPad, resolvePad } from '../audio/drumPads';
+import { Kit, loadKit } from '../audio/kits';
+import { createKitPlayer, KitPlayer, TriggerOptions } from '../audio/kitPlayer';
+import { createPadFilters, PadFilters } from '../audio/padFilters';
+import { getMixer } from '../audio/mixer';
+import { HI_HAT_CLOSED_DECAY, hiHatArticulation, hiHatDecay } from '../audio/hihat';
+import { ensureAudioStarted } from '../audio/toneConfig';
+import { decodeSampleFile, loadUserSamples } from '../audio/userSamples';
+
+export type PadOutput = (pad: DrumPad) => Tone.InputNode;
+
+// Pads go to their mixer strip unless the caller routes them elsewhere
+export const mixerOutput: PadOutput = pad => getMixer().input(pad);
+
+// Playback settings for one hit; `natural` is how long the articulation itself would ring
+export function shapeTrigger(shape: VoiceShape = {}, natural?: number): TriggerOptions {
+  const decay = shape.decay ?? undefined;
+  const duration = natural != null && decay != null ? Math.min(natural, decay) : natural ?? decay;
+  return { playbackRate: Math.pow(2, (shape.pitch ?? 0) / 12), release: shape.release, duration };
+}
+
+// Plays a kit's samples. init() loads the kit and rejects if the manifest or any sample fails.
+export class ToneSamplerEngine implements AudioEngine {
+  private player: KitPlayer | null = null;
+  private loading: Promise<void> | null = null;
+  private ready = false;
+  private disposed = false;
+  // User one-shots by pad; null marks a pad reverted while the kit was still loading
+  private padBuffers = new Map<DrumPad, AudioBuffer | null>();
+  private filters: PadFilters;
+
+  constructor(readonly kitId: string, output: PadOutput = mixerOutput) {
+    this.filters = createPadFilters(output);
+  }
+
+  init() {
+    if (!this.loading) {
+      this.loading = this.load();
+      // Allow a retry after audio was locked or the network failed
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load() {
+    const started = await ensureAudioStarted();
+    if (!started) throw new Error('Audio is locked by the browser. Click Enable audio.');
+    const kit = await loadKit(this.kitId);
+    if (this.disposed) throw new Error('Kit changed while loading');
+    this.player?.dispose();
+    const player = createKitPlayer(kit, pad => this.filters.input(pad));
+    this.player = player;
+    await Promise.all([player.loaded, this.loadUserSamples()]);
+    if (this.disposed) throw new Error('Kit changed while loading');
+    this.padBuffers.forEach((buffer, pad) => player.setPadBuffer(pad, buffer));
+    this.ready = true;
+  }
+
+  // A broken or missing user sample must not take the whole kit down
+  private async loadUserSamples() {
+    try {
+      const stored = await loadUserSamples(this.kitId);
+      await Promise.all(
+        Object.values(stored).map(async sample => {
+          if (!sample || this.padBuffers.has(sample.pad)) return;
+          try {
+            const buffer = await decodeSampleFile(sample.blob);
+            if (!this.padBuffers.has(sample.pad)) this.padBuffers.set(sample.pad, buffer);
+          } catch (e) {
+            console.warn(`Ignoring user sample "${sample.name}" for ${sample.pad}:`, e);
+          }
+        })
+      );
+    } catch (e) {
+      console.warn('User samples unavailable:', e);
+    }
+  }
+
+  // Swap one pad's samples without reloading the rest of the kit
+  setPadBuffer(pad: DrumPad, buffer: AudioBuffer | null) {
+    this.padBuffers.set(pad, buffer);
+    this.player?.setPadBuffer(pad, buffer);
+  }
+
+  get kit(): Kit | null {
+    return this.player?.kit ?? null;
+  }
+
+  isReady = () => this.ready;
+
+  play(note: NoteName | MidiNumber, options: PlayOptions = {}) {
+    const pad = noteToPad(note);
+    const player = this.player;
+    if (!pad || !player || !this.ready) return;
+    // A sound the kit lacks plays its closest stand-in, still through its own strip
+    const source = resolvePad(pad, p => player.has(p));
+    if (!source) return;
+    const { velocity = 100, time = Tone.immediate(), openness = 1, shape = {} } = options;
+    this.filters.shape(pad, { ...shape, velocity, time });
+    if (pad === DrumPad.HiHatClosed || pad === DrumPad.HiHatOpen) {
+      this.playHiHat(player, pad, velocity, time, openness, shape);
+      return;
+    }
+    if (pad === DrumPad.HiHatPedal) {
+      // foot chick: short but not too short
+      player.trigger(pad, velocity, time, shapeTrigger(shape, HI_HAT_CLOSED_DECAY));
+      return;
+    }
+    // Everything else rings out its sample tail unless the pad has a decay set
+    player.trigger(pad, velocity, time, { ...shapeTrigger(shape), samples: source });
+  }
+
+  private playHiHat(player: KitPlayer, pad: DrumPad, velocity: number, time: number, openness: number, shape: VoiceShape) {
+    const { hiHat } = player.kit;
+    const zone = hiHatArticulation(openness);
+    switch (zone) {
+      case 'closed':
+        // closed stick tick: short but not too short
+        player.trigger(pad, velocity, time, { ...shapeTrigger(shape, HI_HAT_CLOSED_DECAY), samples: DrumPad.HiHatClosed });
+        return;
+      case 'open':
+        // Play original open sample tail
+        player.trigger(pad, velocity, time, { ...shapeTrigger(shape), samples: DrumPad.HiHatOpen });
+        return;
+      case 'quarter':
+      case 'half': {
+        // A user open hat would not match the kit's in-between samples
+        const dedicated = player.hasPadBuffer(DrumPad.HiHatOpen) ? undefined : zone === 'quarter' ? hiHat.quarterOpen : hiHat.halfOpen;
+        if (dedicated) {
+          player.trigger(pad, velocity, time, { ...shapeTrigger(shape), samples: dedicated });
+        } else {
+          // No in-between sample in this kit: cut the open sample short by pedal position
+          player.trigger(pad, velocity, time, { ...shapeTrigger(shape, hiHatDecay(openness)), samples: DrumPad.HiHatOpen });
+        }
+      }
+    }
+  }
+
+  stop(note: NoteName | MidiNumber, options: StopOptions = {}) {
+    const pad = noteToPad(note);
+    if (!pad) return;
+    try {
+      this.player?.release(pad, options.time ?? Tone.immediate(), options.fade);
+    } catch {}
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.ready = false;
+    try {
+      this.player?.dispose();
+    } catch {}
+    this.player = null;
+    this.filters.dispose();
+  }
+}
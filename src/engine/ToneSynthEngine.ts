@@ -0,0 +1,228 @@
+import * as Tone from 'tone';
+import { AudioEngine, MidiNumber, NoteName, PlayOptions, StopOptions } from './AudioEngine';
+import { DrumPad, noteToPad, resolvePad } from '../audio/drumPads';
+import { HI_HAT_CLOSED_DECAY, HI_HAT_OPEN_DECAY, hiHatArticulation, hiHatDecay } from '../audio/hihat';
+import { ensureAudioStarted } from '../audio/toneConfig';
+import { mixerOutput, PadOutput } from './ToneSamplerEngine';
+import { createPadFilters, PadFilters } from '../audio/padFilters';
+
+type Voices = {
+  kick: Tone.MembraneSynth;
+  snare: Tone.NoiseSynth;
+  stick: Tone.NoiseSynth;
+  hhClosed: Tone.MetalSynth;
+  hhPedal: Tone.MetalSynth;
+  hhOpen: Tone.MetalSynth;
+  crash: Tone.MetalSynth;
+  ride: Tone.MetalSynth;
+  tomHigh: Tone.MembraneSynth;
+  tomMid: Tone.MembraneSynth;
+  tomFloor: Tone.MembraneSynth;
+};
+
+type Voice = keyof Voices;
+
+// Core kit only; every other GM sound borrows the voice of its closest core pad
+const PAD_VOICES: Partial<Record<DrumPad, Voice>> = {
+  [DrumPad.Kick]: 'kick',
+  [DrumPad.Snare]: 'snare',
+  [DrumPad.Stick]: 'stick',
+  [DrumPad.HiHatClosed]: 'hhClosed',
+  [DrumPad.HiHatPedal]: 'hhPedal',
+  [DrumPad.HiHatOpen]: 'hhOpen',
+  [DrumPad.Crash]: 'crash',
+  [DrumPad.Ride]: 'ride',
+  [DrumPad.TomHigh]: 'tomHigh',
+  [DrumPad.TomMid]: 'tomMid',
+  [DrumPad.TomFloor]: 'tomFloor',
+};
+
+// Base pitch (Hz) of the pitched voices; pad tuning scales these
+const HAT_FREQUENCY = 400;
+const CYMBAL_FREQUENCY = 300;
+
+function voicePad(pad: DrumPad) {
+  return resolvePad(pad, p => PAD_VOICES[p] != null);
+}
+
+function createHatVoice() {
+  const hat = new Tone.MetalSynth({ envelope: { attack: 0.001, decay: 0.08, release: 0.01 }, harmonicity: 5.1, modulationIndex: 32, resonance: 4000, octaves: 1.5 });
+  // set frequencies after construction to satisfy Tone types
+  hat.frequency.value = HAT_FREQUENCY;
+  return hat;
+}
+
+function createCymbalVoice() {
+  const cym = new Tone.MetalSynth({ envelope: { attack: 0.001, decay: 1.8, release: 0.5 }, harmonicity: 5.1, modulationIndex: 16, resonance: 2000, octaves: 2.5 });
+  cym.frequency.value = CYMBAL_FREQUENCY;
+  return cym;
+}
+
+function createSnareVoice() {
+  return new Tone.NoiseSynth({ noise: { type: 'white' }, envelope: { attack: 0.001, decay: 0.2, sustain: 0 } });
+}
+
+const VOICE_FACTORIES: { [V in Voice]: () => Voices[V] } = {
+  kick: () => new Tone.MembraneSynth({ octaves: 2, pitchDecay: 0.01, envelope: { attack: 0.001, decay: 0.3, sustain: 0 } }),
+  snare: createSnareVoice,
+  stick: createSnareVoice,
+  hhClosed: createHatVoice,
+  hhPedal: createHatVoice,
+  hhOpen: createHatVoice,
+  crash: createCymbalVoice,
+  ride: createCymbalVoice,
+  tomHigh: () => new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.3, sustain: 0 } }),
+  tomMid: () => new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.35, sustain: 0 } }),
+  tomFloor: () => new Tone.MembraneSynth({ octaves: 1, envelope: { attack: 0.001, decay: 0.45, sustain: 0 } }),
+};
+
+// Synthesised kit: needs no downloads, so it doubles as the fallback when samples fail.
+// One voice per pad so each lands on its own output (mixer strip).
+export class ToneSynthEngine implements AudioEngine {
+  private voices: Voices | null = null;
+  // Copies of core voices for the other GM pads that borrow them, made on their first hit
+  private borrowed = new Map<DrumPad, Voices[Voice]>();
+  // Each voice's own envelope, restored when a pad has no decay/release of its own
+  private envelopes = new Map<Voice, { decay: number; release: number }>();
+  private filters: PadFilters;
+
+  constructor(output: PadOutput = mixerOutput) {
+    this.filters = createPadFilters(output);
+  }
+
+  async init() {
+    const started = await ensureAudioStarted();
+    if (!started) throw new Error('Audio is locked by the browser. Click Enable audio.');
+    this.ensureVoices();
+  }
+
+  isReady = () => this.voices != null;
+
+  private ensureVoices() {
+    if (this.voices) return this.voices;
+    const voice = <V extends Voice>(name: V, pad: DrumPad) => VOICE_FACTORIES[name]().connect(this.filters.input(pad)) as Voices[V];
+    this.voices = {
+      kick: voice('kick', DrumPad.Kick),
+      snare: voice('snare', DrumPad.Snare),
+      stick: voice('stick', DrumPad.Stick),
+      hhClosed: voice('hhClosed', DrumPad.HiHatClosed),
+      hhPedal: voice('hhPedal', DrumPad.HiHatPedal),
+      hhOpen: voice('hhOpen', DrumPad.HiHatOpen),
+      crash: voice('crash', DrumPad.Crash),
+      ride: voice('ride', DrumPad.Ride),
+      tomHigh: voice('tomHigh', DrumPad.TomHigh),
+      tomMid: voice('tomMid', DrumPad.TomMid),
+      tomFloor: voice('tomFloor', DrumPad.TomFloor),
+    };
+    (Object.entries(this.voices) as [Voice, Voices[Voice]][]).forEach(([voice, synth]) => {
+      this.envelopes.set(voice, {
+        decay: Tone.Time(synth.envelope.decay).toSeconds(),
+        release: Tone.Time(synth.envelope.release).toSeconds(),
+      });
+    });
+    return this.voices;
+  }
+
+  // The core voice, or for a pad that borrows it, a copy on that pad's own strip
+  private voiceFor<V extends Voice>(voice: V, pad: DrumPad): Voices[V] {
+    const voices = this.ensureVoices();
+    if (PAD_VOICES[pad] === voice) return voices[voice];
+    let synth = this.borrowed.get(pad);
+    if (!synth) {
+      synth = VOICE_FACTORIES[voice]().connect(this.filters.input(pad));
+      this.borrowed.set(pad, synth);
+    }
+    return synth as Voices[V];
+  }
+
+  play(note: NoteName | MidiNumber, options: PlayOptions = {}) {
+    const pad = noteToPad(note);
+    // A sound the core kit lacks plays its closest stand-in, still through its own strip and filters
+    const source = pad ? voicePad(pad) : null;
+    if (!pad || !source) return;
+    const { time = Tone.immediate(), openness = 1, shape = {} } = options;
+    const velocity = options.velocity ?? 100;
+    const vel = Math.max(0, Math.min(1, velocity / 127));
+    const voice = PAD_VOICES[source]!;
+    const bus = <V extends Voice>(name: V) => this.voiceFor(name, pad);
+    const synth = bus(voice);
+    const envelope = this.envelopes.get(voice)!;
+    this.filters.shape(pad, { ...shape, velocity, time });
+    const rate = Math.pow(2, (shape.pitch ?? 0) / 12);
+    synth.envelope.decay = shape.decay ?? envelope.decay;
+    synth.envelope.release = shape.release ?? envelope.release;
+    // A pad decay also sets how long membranes hold before releasing
+    const hold = shape.decay ?? '8n';
+    switch (voice) {
+      case 'kick':
+        bus('kick').triggerAttackRelease(50 * rate, hold, time, vel);
+        break;
+      case 'snare':
+        bus('snare').triggerAttackRelease(shape.decay ?? '16n', time, vel);
+        break;
+      case 'stick':
+        bus('stick').triggerAttackRelease(shape.decay ?? '16n', time, vel);
+        break;
+      case 'hhOpen':
+      case 'hhClosed': {
+        // Decay follows the pedal: tick when closed, long wash when open; a pad decay can only shorten it
+        const zone = hiHatArticulation(openness);
+        const natural = zone === 'open' ? HI_HAT_OPEN_DECAY : zone === 'closed' ? HI_HAT_CLOSED_DECAY : hiHatDecay(openness);
+        const decay = Math.min(natural, shape.decay ?? Infinity);
+        const hat = bus(voice);
+        hat.envelope.decay = decay;
+        hat.frequency.setValueAtTime(HAT_FREQUENCY * rate, time);
+        hat.triggerAttackRelease(decay, time, zone === 'closed' ? 0.4 + vel * 0.6 : 0.5 + vel * 0.5);
+        break;
+      }
+      case 'hhPedal': {
+        const decay = Math.min(HI_HAT_CLOSED_DECAY, shape.decay ?? Infinity);
+        bus('hhPedal').envelope.decay = decay;
+        bus('hhPedal').frequency.setValueAtTime(HAT_FREQUENCY * rate, time);
+        bus('hhPedal').triggerAttackRelease(decay, time, 0.4 + vel * 0.6);
+        break;
+      }
+      case 'crash':
+        bus('crash').envelope.decay = shape.decay ?? 1.6;
+        bus('crash').frequency.setValueAtTime(CYMBAL_FREQUENCY * rate, time);
+        bus('crash').triggerAttackRelease(shape.decay ?? '2n', time, 0.4 + vel * 0.6);
+        break;
+      case 'ride':
+        bus('ride').envelope.decay = shape.decay ?? 0.6;
+        bus('ride').frequency.setValueAtTime(CYMBAL_FREQUENCY * rate, time);
+        bus('ride').triggerAttackRelease(hold, time, 0.4 + vel * 0.6);
+        break;
+      case 'tomHigh':
+        bus('tomHigh').triggerAttackRelease(220 * rate, hold, time, vel);
+        break;
+      case 'tomMid':
+        bus('tomMid').triggerAttackRelease(180 * rate, hold, time, vel);
+        break;
+      case 'tomFloor':
+        bus('tomFloor').triggerAttackRelease(140 * rate, hold, time, vel);
+        break;
+    }
+  }
+
+  stop(note: NoteName | MidiNumber, options: StopOptions = {}) {
+    const pad = noteToPad(note);
+    const source = pad ? voicePad(pad) : null;
+    if (!pad || !source || !this.voices) return;
+    const voice = pad === source ? this.voices[PAD_VOICES[source]!] : this.borrowed.get(pad);
+    if (!voice) return;
+    try {
+      const release = voice.envelope.release;
+      if (options.fade != null) voice.envelope.release = options.fade;
+      voice.triggerRelease(options.time ?? Tone.immediate());
+      voice.envelope.release = release;
+    } catch {}
+  }
+
+  dispose() {
+    if (this.voices) Object.values(this.voices).forEach(v => v.dispose());
+    this.voices = null;
+    this.borrowed.forEach(v => v.dispose());
+    this.borrowed.clear();
+    this.filters.dispose();
+  }
+}
@@ -0,0 +1,61 @@
+// Minimal promise wrapper over IndexedDB for data too large for localStorage.
+// All stores live in one database; add a store name here and bump the version.
+const DB_NAME = 'web-drumkit';
+const DB_VERSION = 4;
+const STORES = ['user_samples', 'imported_kits', 'takes', 'click_samples'] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        STORES.forEach(name => {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+        });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Allow a retry after a failed open (e.g. private mode quirks)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
+
+export function idbGet<T>(store: StoreName, key: string) {
+  return withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+}
+
+export function idbGetAll<T>(store: StoreName) {
+  return withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T) {
+  await withStore(store, 'readwrite', s => s.put(value, key));
+}
+
+export async function idbDelete(store: StoreName, key: string) {
+  await withStore(store, 'readwrite', s => s.delete(key));
+}
@@ -0,0 +1,57 @@
+import { downloadBlob } from './wav';
+
+// Settings and saved lists (setlists, arrangements …) in localStorage, and the JSON files they are shared as.
+let idCount = 0;
+
+// Unique enough for ids made in one browser, e.g. "song-lx3k2a-0"
+export function newId(prefix: string) {
+  return `${prefix}-${Date.now().toString(36)}-${(idCount++).toString(36)}`;
+}
+
+export function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : fallback;
+}
+
+// What was saved under `key`, or null if nothing readable is stored; callers validate the shape
+export function loadJson(key: string): unknown {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+}
+
+// Stored items run through `normalize`, so older or hand-edited entries still load; [] if nothing usable is stored
+export function loadList<T>(key: string, normalize: (raw: Partial<T>) => T): T[] {
+  const parsed = loadJson(key);
+  return Array.isArray(parsed) ? (parsed as Partial<T>[]).map(normalize) : [];
+}
+
+// False when storage is full or disabled (e.g. private browsing); the app keeps working without it
+export function saveJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "My Song (v2)" → "My-Song-v2"
+export function fileSafeName(name: string, fallback: string) {
+  return name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
+}
+
+export function downloadJson(data: unknown, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
+
+// Rejects with a readable message if the file is not JSON
+export async function readJsonFile(file: Blob): Promise<unknown> {
+  try {
+    return JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+}
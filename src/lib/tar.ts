@@ -0,0 +1,70 @@
+// Just enough tar (ustar + GNU/pax long names) to unpack kit archives in the browser.
+export type TarEntry = {
+  path: string;
+  data: Uint8Array;
+};
+
+const BLOCK = 512;
+
+function readString(bytes: Uint8Array, offset: number, length: number) {
+  const slice = bytes.subarray(offset, offset + length);
+  const end = slice.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? slice.subarray(0, end) : slice);
+}
+
+function readOctal(bytes: Uint8Array, offset: number, length: number) {
+  const text = readString(bytes, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function paxPath(data: Uint8Array) {
+  // Records look like "<len> key=value\n"
+  for (const line of new TextDecoder().decode(data).split('\n')) {
+    const m = /^\d+ path=(.*)$/.exec(line);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+export function isGzip(bytes: Uint8Array) {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export async function gunzip(file: Blob): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot unpack compressed archives');
+  }
+  const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Regular files only; directories and links are skipped
+export function untar(bytes: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  while (offset + BLOCK <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK);
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every(b => b === 0)) break;
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const dataStart = offset + BLOCK;
+    const data = bytes.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK) * BLOCK;
+    if (type === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = paxPath(data) ?? longName;
+      continue;
+    }
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = null;
+    if (type === '0' || type === '7') entries.push({ path, data });
+  }
+  return entries;
+}
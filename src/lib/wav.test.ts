@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+
+function bytes(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer));
+}
+
+describe('encodeWav', () => {
+  it('writes 16-bit stereo as interleaved little-endian samples after a 44-byte header', () => {
+    const wav = encodeWav([new Float32Array([0, 1]), new Float32Array([-1, 0.5])], 8000, 16);
+    expect(bytes(wav)).toEqual([
+      ...ascii('RIFF'), 44, 0, 0, 0, ...ascii('WAVE'),
+      ...ascii('fmt '), 16, 0, 0, 0, 1, 0, 2, 0,
+      0x40, 0x1f, 0, 0, // 8000 Hz
+      0x00, 0x7d, 0, 0, // 32000 bytes a second
+      4, 0, 16, 0,
+      ...ascii('data'), 8, 0, 0, 0,
+      0x00, 0x00, 0x01, 0x80, // 0, -1
+      0xff, 0x7f, 0x00, 0x40, // 1, 0.5
+    ]);
+  });
+
+  it('writes 24-bit samples as three bytes and clips anything past full scale', () => {
+    const wav = encodeWav([new Float32Array([1, -1, 2, -0.5])], 48000, 24);
+    expect(bytes(wav)).toEqual([
+      ...ascii('RIFF'), 48, 0, 0, 0, ...ascii('WAVE'),
+      ...ascii('fmt '), 16, 0, 0, 0, 1, 0, 1, 0,
+      0x80, 0xbb, 0, 0, // 48000 Hz
+      0x80, 0x32, 0x02, 0, // 144000 bytes a second
+      3, 0, 24, 0,
+      ...ascii('data'), 12, 0, 0, 0,
+      0xff, 0xff, 0x7f, // 1
+      0x01, 0x00, 0x80, // -1
+      0xff, 0xff, 0x7f, // 2, clipped to 1
+      0x01, 0x00, 0xc0, // -0.5
+    ]);
+  });
+
+  it('refuses to encode without channels', () => {
+    expect(() => encodeWav([], 44100)).toThrow('Nothing to encode');
+  });
+});
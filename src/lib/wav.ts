@@ -0,0 +1,69 @@
+// PCM WAV encoding for rendered audio. No dither, so equal input gives equal bytes.
+export type WavBitDepth = 16 | 24;
+
+const HEADER_SIZE = 44;
+
+function writeString(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+}
+
+// Samples are clipped to -1..1 and interleaved; all channels must be the same length
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): ArrayBuffer {
+  const channelCount = channels.length;
+  if (!channelCount) throw new Error('Nothing to encode');
+  const frames = channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(HEADER_SIZE + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // integer PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = HEADER_SIZE;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      const value = Math.round(sample * max);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        // Little-endian 24-bit: low two bytes, then the signed high byte
+        view.setUint16(offset, value & 0xffff, true);
+        view.setInt8(offset + 2, value >> 16);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return view.buffer;
+}
+
+export function audioBufferToWav(buffer: AudioBuffer, bitDepth: WavBitDepth = 16) {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return new Blob([encodeWav(channels, buffer.sampleRate, bitDepth)], { type: 'audio/wav' });
+}
+
+// Hand a blob to the browser as a file download
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -10,24 +10,44 @@ export type MidiCcCallback = (
   raw: WebMidi.MIDIMessageEvent
 ) => void;
 
-function isIterableMap<T>(
-  obj: Map<string, T> | { values: () => IterableIterator<T> }
-): obj is Map<string, T> {
-  return typeof (obj as Map<string, T>).values === 'function' && 'size' in obj;
-}
+export type MidiAftertouchCallback = (
+  note: number,
+  pressure: number,
+  raw: WebMidi.MIDIMessageEvent
+) => void;
+
+// System real-time and song position messages, for MIDI clock sync
+export type MidiClockMessage =
+  | { type: 'clock' }
+  | { type: 'start' }
+  | { type: 'continue' }
+  | { type: 'stop' }
+  | { type: 'position'; sixteenths: number }; // Song Position Pointer, in MIDI beats (16th notes)
+
+export type MidiClockCallback = (message: MidiClockMessage, raw: WebMidi.MIDIMessageEvent) => void;
+
+export const MIDI_CLOCK = 0xf8;
+export const MIDI_START = 0xfa;
+export const MIDI_CONTINUE = 0xfb;
+export const MIDI_STOP = 0xfc;
+export const MIDI_SONG_POSITION = 0xf2;
 
 function eachInput(
   inputs: WebMidi.MIDIAccess['inputs'],
   fn: (input: WebMidi.MIDIInput) => void
 ) {
-  if (isIterableMap(inputs as any)) {
-    for (const input of (inputs as Map<string, WebMidi.MIDIInput>).values()) {
-      fn(input);
-    }
-  } else {
-    for (const input of (inputs as WebMidi.MIDIInputMap).values()) {
-      fn(input);
-    }
+  // Map and the older MIDIInputMap both iterate their values
+  for (const input of inputs.values()) {
+    fn(input);
+  }
+}
+
+function eachOutput(
+  outputs: WebMidi.MIDIAccess['outputs'],
+  fn: (output: WebMidi.MIDIOutput) => void
+) {
+  for (const output of (outputs as Map<string, WebMidi.MIDIOutput>).values()) {
+    fn(output);
   }
 }
 
@@ -57,6 +77,31 @@ export async function listMidiInputs() {
   return results;
 }
 
+export async function listMidiOutputs() {
+  const access = await getMIDIAccess();
+  const results: Array<{
+    id: string;
+    name?: string;
+    manufacturer?: string;
+  }> = [];
+  eachOutput(access.outputs, output => {
+    results.push({ id: output.id, name: output.name, manufacturer: output.manufacturer });
+  });
+  return results;
+}
+
+// `timestamp` is in performance.now() time; omitted, the message goes out at once
+export async function sendMidi(outputId: string, data: number[], timestamp?: number) {
+  const access = await getMIDIAccess();
+  let found = false;
+  eachOutput(access.outputs, output => {
+    if (output.id !== outputId) return;
+    found = true;
+    output.send(data, timestamp);
+  });
+  return found;
+}
+
 export async function initMidiListener(callback: MidiCallback) {
   const access = await getMIDIAccess();
 
@@ -82,7 +127,7 @@ export async function initMidiListener(callback: MidiCallback) {
 
   attachAll();
 
-  const onStateChange = (_e: WebMidi.MIDIConnectionEvent) => {
+  const onStateChange = () => {
     // Re-attach handlers in case devices were added/removed
     attachAll();
   };
@@ -212,3 +257,124 @@ export async function initMidiCcListenerForInput(
     },
   };
 }
+
+// Polyphonic key pressure (0xA0): e-kits send it when a cymbal edge is grabbed
+export async function initMidiAftertouchListenerForInput(
+  inputId: string,
+  callback: MidiAftertouchCallback
+) {
+  const access = await getMIDIAccess();
+
+  const handler = (e: WebMidi.MIDIMessageEvent) => {
+    const data = e.data;
+    if (!data || data.length < 3) return;
+    const status = data[0];
+    const command = status & 0xf0;
+    if (command === 0xa0) {
+      const note = data[1];
+      const pressure = data[2];
+      callback(note, pressure, e);
+    }
+  };
+
+  // A listener of our own, so it never clobbers or chains the note/CC handler on the same input
+  let attached: WebMidi.MIDIInput | null = null;
+  const attach = () => {
+    const matches: WebMidi.MIDIInput[] = [];
+    eachInput(access.inputs, input => {
+      if (input.id === inputId) matches.push(input);
+    });
+    const found = matches[0] ?? null;
+    if (found === attached) return !!found;
+    attached?.removeEventListener('midimessage', handler);
+    attached = found;
+    if (attached) {
+      attached.addEventListener('midimessage', handler);
+      // Only setting onmidimessage opens a port implicitly
+      void attached.open().catch(() => {});
+    }
+    return !!attached;
+  };
+
+  attach();
+
+  // A listener of our own, so dispose removes it without touching access.onstatechange
+  const onStateChange = () => {
+    attach();
+  };
+  access.addEventListener('statechange', onStateChange);
+
+  return {
+    dispose() {
+      attached?.removeEventListener('midimessage', handler);
+      attached = null;
+      access.removeEventListener('statechange', onStateChange);
+    },
+  };
+}
+
+// Clock ticks, Start/Continue/Stop and Song Position Pointer from one input. The
+// note/CC handlers above only take 3-byte channel messages, so real-time bytes
+// are parsed here. Listens with addEventListener, so it cannot clobber (or be
+// clobbered by) the onmidimessage handlers.
+export async function initMidiClockListenerForInput(
+  inputId: string,
+  callback: MidiClockCallback
+) {
+  const access = await getMIDIAccess();
+
+  const handler = (e: WebMidi.MIDIMessageEvent) => {
+    const data = e.data;
+    if (!data || !data.length) return;
+    switch (data[0]) {
+      case MIDI_CLOCK:
+        callback({ type: 'clock' }, e);
+        break;
+      case MIDI_START:
+        callback({ type: 'start' }, e);
+        break;
+      case MIDI_CONTINUE:
+        callback({ type: 'continue' }, e);
+        break;
+      case MIDI_STOP:
+        callback({ type: 'stop' }, e);
+        break;
+      case MIDI_SONG_POSITION:
+        if (data.length >= 3) callback({ type: 'position', sixteenths: (data[2] << 7) | data[1] }, e);
+        break;
+    }
+  };
+
+  let attached: WebMidi.MIDIInput | null = null;
+  const attach = () => {
+    const matches: WebMidi.MIDIInput[] = [];
+    eachInput(access.inputs, input => {
+      if (input.id === inputId) matches.push(input);
+    });
+    const found = matches[0] ?? null;
+    if (found === attached) return !!found;
+    attached?.removeEventListener('midimessage', handler);
+    attached = found;
+    if (attached) {
+      attached.addEventListener('midimessage', handler);
+      // Only setting onmidimessage opens a port implicitly
+      void attached.open().catch(() => {});
+    }
+    return !!attached;
+  };
+
+  attach();
+
+  const onStateChange = () => {
+    attach();
+  };
+  access.addEventListener('statechange', onStateChange);
+
+  return {
+    dispose() {
+      attached?.removeEventListener('midimessage', handler);
+      attached = null;
+      access.removeEventListener('statechange', onStateChange);
+    },
+  };
+}
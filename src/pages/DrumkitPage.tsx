@@ -1,5 +1,10 @@
+import ArrangementPanel from '../components/ArrangementPanel';
 import MidiSampler from '../components/MidiSampler';
 import Metronome from '../components/Metronome';
+import MixerPanel from '../components/MixerPanel';
+import SequencerPanel from '../components/SequencerPanel';
+import SessionRecorder from '../components/SessionRecorder';
+import SetlistPanel from '../components/SetlistPanel';
 import { Badge } from '../components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import ModeSwitch from '../components/ModeSwitch';
@@ -48,11 +53,26 @@ export default function DrumkitPage() {
             <div className="motion-safe:animate-float-in" style={{ animationDelay: '140ms' }}>
               <MidiSampler />
             </div>
+            <div className="motion-safe:animate-float-in" style={{ animationDelay: '160ms' }}>
+              <SequencerPanel />
+            </div>
+            <div className="motion-safe:animate-float-in" style={{ animationDelay: '170ms' }}>
+              <ArrangementPanel />
+            </div>
+            <div className="motion-safe:animate-float-in" style={{ animationDelay: '180ms' }}>
+              <MixerPanel />
+            </div>
+            <div className="motion-safe:animate-float-in" style={{ animationDelay: '200ms' }}>
+              <SessionRecorder />
+            </div>
           </div>
           <div className="space-y-6">
             <div className="motion-safe:animate-float-in" style={{ animationDelay: '220ms' }}>
               <Metronome />
             </div>
+            <div className="motion-safe:animate-float-in" style={{ animationDelay: '260ms' }}>
+              <SetlistPanel />
+            </div>
             <Card className="bg-card/85 backdrop-blur motion-safe:animate-float-in" style={{ animationDelay: '300ms' }}>
               <CardHeader className="pb-3">
                 <CardTitle className="font-display text-2xl">Session tips</CardTitle>
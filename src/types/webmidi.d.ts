@@ -2,7 +2,7 @@
 // Enough for basic input listening; extend as needed.
 
 declare namespace WebMidi {
-  interface MIDIAccess {
+  interface MIDIAccess extends EventTarget {
     inputs: Map<string, MIDIInput> | MIDIInputMap;
     outputs: Map<string, MIDIOutput> | MIDIOutputMap;
     onstatechange: ((e: MIDIConnectionEvent) => void) | null;
@@ -20,19 +20,25 @@ declare namespace WebMidi {
     forEach(callback: (value: MIDIOutput, key: string) => void): void;
   }
 
-  interface MIDIPort {
+  interface MIDIPort extends EventTarget {
     id: string;
     manufacturer?: string;
     name?: string;
     type: 'input' | 'output';
     state: 'connected' | 'disconnected';
     connection: 'open' | 'closed' | 'pending';
+    open(): Promise<MIDIPort>;
   }
 
   interface MIDIInput extends MIDIPort {
     onmidimessage: ((e: MIDIMessageEvent) => void) | null;
+    addEventListener(type: 'midimessage', listener: (e: MIDIMessageEvent) => void): void;
+    removeEventListener(type: 'midimessage', listener: (e: MIDIMessageEvent) => void): void;
+  }
+  interface MIDIOutput extends MIDIPort {
+    // timestamp is in performance.now() time
+    send(data: number[] | Uint8Array, timestamp?: number): void;
   }
-  interface MIDIOutput extends MIDIPort {}
 
   interface MIDIMessageEvent extends Event {
     data: Uint8Array;
@@ -1,6 +1,11 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // Tone's ESM build imports without file extensions, which only Vite resolves
+    server: { deps: { inline: ['tone'] } },
+  },
 });